@@ -0,0 +1,60 @@
+import { Assets } from 'pixi.js';
+import { soundBank } from '../audio/SoundBank';
+import { registerLevelPack } from '../levels/builtinLevels';
+import { ASSET_MANIFEST, AssetBundle } from './manifest';
+
+export type LoadProgress = (progress: number) => void;
+
+// What to do with a bundle's content once it's loaded, e.g. registering sounds. Keyed by bundle.
+const consumers: Partial<Record<AssetBundle, (assets: Record<string, unknown>) => void>> = {
+    sounds: (assets) => soundBank.registerAll(assets.soundBank),
+    levels: (assets) => registerLevelPack(assets.bonusPack),
+};
+
+const consumed = new Set<AssetBundle>();
+let initialized: Promise<void> | null = null;
+
+// Shared by every caller while it runs. A failed init is forgotten, so the next call tries again.
+function initAssets(): Promise<void> {
+    if (!initialized) {
+        initialized = Assets.init({ manifest: ASSET_MANIFEST }).catch((error) => {
+            initialized = null;
+            throw error;
+        });
+    }
+    return initialized;
+}
+
+function consume(bundles: AssetBundle[], loaded: Record<string, Record<string, unknown>>): void {
+    bundles.forEach((bundle) => {
+        if (consumed.has(bundle)) return;
+        const consumer = consumers[bundle];
+        if (consumer) consumer(loaded[bundle] || {});
+        consumed.add(bundle);
+    });
+}
+
+/**
+ * Loads `bundles` and hands their content to the systems that use it. `onProgress` gets 0 to 1.
+ * Rejects if any file fails; calling again retries only what hasn't loaded yet.
+ */
+export async function loadBundles(bundles: AssetBundle[], onProgress?: LoadProgress): Promise<void> {
+    await initAssets();
+    const loaded = await Assets.loadBundle(bundles, onProgress);
+    consume(bundles, loaded);
+}
+
+/**
+ * Fetches `bundles` at low priority while the game runs, without waiting for them.
+ * Failures are only logged; a later `loadBundles` for the same bundles tries again.
+ */
+export function preloadBundles(bundles: AssetBundle[]): void {
+    initAssets()
+        .then(() => Assets.backgroundLoadBundle(bundles))
+        .then(() => loadBundles(bundles))
+        .catch((error) => console.warn('Background asset loading failed', error));
+}
+
+export function isBundleLoaded(bundle: AssetBundle): boolean {
+    return consumed.has(bundle);
+}
@@ -0,0 +1,45 @@
+import type { AssetsManifest } from 'pixi.js';
+import bonusPackUrl from './levels/bonus-pack.json?url';
+import soundBankUrl from './sounds/soundBank.json?url';
+import backdropUrl from './textures/backdrop.svg';
+
+export const AssetBundles = {
+    Fonts: 'fonts',
+    Textures: 'textures',
+    Sounds: 'sounds',
+    Levels: 'levels',
+} as const;
+
+export type AssetBundle = (typeof AssetBundles)[keyof typeof AssetBundles];
+
+/**
+ * Every file the game loads at runtime, grouped into bundles that load together.
+ * Vite resolves the imports above to hashed URLs, so files here are cached safely across releases.
+ */
+export const ASSET_MANIFEST: AssetsManifest = {
+    bundles: [
+        {
+            // Text uses system fonts for now. Web fonts go here as { alias, src, data: { family } }.
+            name: AssetBundles.Fonts,
+            assets: [],
+        },
+        {
+            name: AssetBundles.Textures,
+            assets: [{ alias: 'backdrop', src: backdropUrl }],
+        },
+        {
+            name: AssetBundles.Sounds,
+            assets: [{ alias: 'soundBank', src: soundBankUrl }],
+        },
+        {
+            name: AssetBundles.Levels,
+            assets: [{ alias: 'bonusPack', src: bonusPackUrl }],
+        },
+    ],
+};
+
+// Needed before the title screen can show.
+export const STARTUP_BUNDLES: AssetBundle[] = [AssetBundles.Fonts, AssetBundles.Textures, AssetBundles.Sounds];
+
+// Fetched quietly once the game is up. Nothing needs them until the player picks a level.
+export const BACKGROUND_BUNDLES: AssetBundle[] = [AssetBundles.Levels];
@@ -0,0 +1,137 @@
+import type { GameSettings, SettingsStore } from '../settings/SettingsStore';
+
+export type AudioBus = 'sfx' | 'music' | 'ui';
+
+/**
+ * Builds one sound into `output`, starting at `when` (context time). Returns how long it lasts in
+ * seconds, so the manager knows when the voice is free again.
+ */
+export type SoundBuilder = (context: AudioContext, output: AudioNode, when: number) => number;
+
+// Sounds playing at once, across all buses. Chain reactions easily ask for far more.
+const MAX_VOICES = 16;
+
+// Fade applied when a voice is cut short or a bus changes level, in seconds. Avoids clicks.
+const FADE_SECONDS = 0.02;
+
+interface Voice {
+    gain: GainNode;
+    endsAt: number;
+}
+
+/**
+ * Owns the Web Audio graph: a master bus with a limiter, and sfx, music and ui buses feeding it.
+ *
+ * Browsers only allow audio to start from a user gesture, so the context is created on the first
+ * pointer or key press. Sounds asked for before then are dropped. Volumes and mute follow the
+ * settings store, which also persists them.
+ */
+export class AudioManager {
+    private context: AudioContext | null = null;
+    private master: GainNode | null = null;
+    private readonly buses = new Map<AudioBus, GainNode>();
+    private voices: Voice[] = [];
+    private paused = false;
+    private suspended = false;
+    private readonly unsubscribe: () => void;
+
+    constructor(private readonly settings: SettingsStore) {
+        this.unsubscribe = settings.subscribe(() => this.applyVolumes());
+        window.addEventListener('pointerdown', this.unlock, true);
+        window.addEventListener('keydown', this.unlock, true);
+        window.addEventListener('touchend', this.unlock, true);
+    }
+
+    get unlocked(): boolean {
+        return this.context !== null && this.context.state !== 'closed';
+    }
+
+    // Plays `sound` on `bus`. Null, e.g. a sound the bank hasn't loaded, plays nothing.
+    play(bus: AudioBus, sound: SoundBuilder | null): void {
+        const context = this.context;
+        const output = this.buses.get(bus);
+        if (!sound || !context || !output || context.state !== 'running') return;
+
+        const now = context.currentTime;
+        this.voices = this.voices.filter((voice) => voice.endsAt > now);
+        if (this.voices.length >= MAX_VOICES) this.release(this.voices.shift()!, now);
+
+        const gain = context.createGain();
+        gain.connect(output);
+        const duration = sound(context, gain, now);
+        this.voices.push({ gain, endsAt: now + duration });
+        window.setTimeout(() => gain.disconnect(), (duration + FADE_SECONDS) * 1000 + 50);
+    }
+
+    // Silences gameplay sound while the pause menu is up. UI sounds keep working.
+    setPaused(paused: boolean): void {
+        this.paused = paused;
+        this.applyVolumes();
+    }
+
+    // Stops the audio clock altogether, e.g. while the page is hidden.
+    setSuspended(suspended: boolean): void {
+        this.suspended = suspended;
+        if (!this.context) return;
+        if (suspended) this.context.suspend();
+        else this.context.resume();
+    }
+
+    destroy(): void {
+        this.unsubscribe();
+        this.removeUnlockListeners();
+        if (this.context) this.context.close();
+        this.context = null;
+        this.buses.clear();
+        this.voices = [];
+    }
+
+    private unlock = (): void => {
+        this.removeUnlockListeners();
+        if (this.context || typeof AudioContext === 'undefined') return;
+
+        const context = new AudioContext();
+        const limiter = context.createDynamicsCompressor();
+        limiter.threshold.value = -6;
+        limiter.ratio.value = 12;
+        limiter.connect(context.destination);
+
+        this.master = context.createGain();
+        this.master.connect(limiter);
+        (['sfx', 'music', 'ui'] as AudioBus[]).forEach((bus) => {
+            const gain = context.createGain();
+            gain.connect(this.master!);
+            this.buses.set(bus, gain);
+        });
+
+        this.context = context;
+        this.applyVolumes();
+        if (this.suspended) context.suspend();
+        else context.resume();
+    };
+
+    private removeUnlockListeners(): void {
+        window.removeEventListener('pointerdown', this.unlock, true);
+        window.removeEventListener('keydown', this.unlock, true);
+        window.removeEventListener('touchend', this.unlock, true);
+    }
+
+    private applyVolumes(): void {
+        if (!this.context || !this.master) return;
+        const settings: GameSettings = this.settings.current;
+        const levels: Record<AudioBus, number> = {
+            sfx: this.paused ? 0 : settings.sfxVolume,
+            music: this.paused ? 0 : settings.musicVolume,
+            ui: settings.uiVolume,
+        };
+
+        const now = this.context.currentTime;
+        this.master.gain.setTargetAtTime(settings.muted ? 0 : settings.masterVolume, now, FADE_SECONDS);
+        this.buses.forEach((gain, bus) => gain.gain.setTargetAtTime(levels[bus], now, FADE_SECONDS));
+    }
+
+    private release(voice: Voice, now: number): void {
+        voice.gain.gain.setTargetAtTime(0, now, FADE_SECONDS / 3);
+        voice.endsAt = now;
+    }
+}
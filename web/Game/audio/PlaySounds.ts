@@ -0,0 +1,51 @@
+import type { ScoreEngine } from '../gameplay/ScoreEngine';
+import type { ScoreEvent } from '../gameplay/ScoreEvents';
+import type { AudioManager } from './AudioManager';
+import { comboSound, explosionSound, missSound, popSound, powerUpSound } from './sounds';
+
+// Turns what happens in a round into sound effects on the sfx bus.
+export class PlaySounds {
+    // Set while fast-forwarding a replay, so seeking doesn't blast out every skipped sound at once.
+    muted = false;
+
+    private combo = 0;
+    private readonly unsubscribe: () => void;
+
+    constructor(
+        private readonly audio: AudioManager,
+        engine: ScoreEngine,
+        private readonly radiusOf: (kind: string) => number,
+    ) {
+        this.unsubscribe = engine.on(this.onScoreEvent);
+    }
+
+    explosion(radius: number): void {
+        if (!this.muted) this.audio.play('sfx', explosionSound(radius));
+    }
+
+    powerUp(): void {
+        if (!this.muted) this.audio.play('sfx', powerUpSound());
+    }
+
+    destroy(): void {
+        this.unsubscribe();
+    }
+
+    private onScoreEvent = (event: ScoreEvent): void => {
+        switch (event.type) {
+            case 'combo':
+                this.combo = event.combo;
+                if (!this.muted) this.audio.play('sfx', comboSound(event.combo));
+                break;
+            case 'comboEnded':
+                this.combo = 0;
+                break;
+            case 'pop':
+                if (!this.muted) this.audio.play('sfx', popSound(this.radiusOf(event.kind), this.combo));
+                break;
+            case 'miss':
+                if (!this.muted) this.audio.play('sfx', missSound());
+                break;
+        }
+    };
+}
@@ -0,0 +1,32 @@
+import { isRecord } from '../data/readers';
+import { parseSoundRecipe, SoundRecipe } from './SoundRecipe';
+
+/**
+ * Recipes for the procedural sounds, keyed by name. Filled from the sound bank in the "sounds" asset
+ * bundle; until that has loaded, asking for a sound finds nothing and plays nothing.
+ */
+export class SoundBank {
+    private readonly recipes = new Map<string, SoundRecipe>();
+
+    register(id: string, raw: unknown): SoundRecipe {
+        const recipe = parseSoundRecipe(raw, `sound.${id}`);
+        this.recipes.set(id, recipe);
+        return recipe;
+    }
+
+    // Registers every entry of an { id: layers[] } object.
+    registerAll(raw: unknown): void {
+        if (!isRecord(raw)) throw new Error('soundBank must be an object keyed by sound id');
+        Object.keys(raw).forEach((id) => this.register(id, raw[id]));
+    }
+
+    has(id: string): boolean {
+        return this.recipes.has(id);
+    }
+
+    get(id: string): SoundRecipe | undefined {
+        return this.recipes.get(id);
+    }
+}
+
+export const soundBank = new SoundBank();
@@ -0,0 +1,56 @@
+import { isRecord, readNumber, readString } from '../data/readers';
+
+// tone: an oscillator gliding from one frequency to another. noise: white noise through a gliding low-pass filter.
+export type SoundSource = 'tone' | 'noise';
+
+export interface SoundLayer {
+    source: SoundSource;
+    // Oscillator wave for tones; ignored for noise.
+    wave: OscillatorType;
+    // Start and end frequency in Hz: the pitch of a tone, or the filter cutoff for noise.
+    from: number;
+    to: number;
+    // Loudest gain, reached right after the attack.
+    peak: number;
+    // Seconds after the sound starts before this layer begins.
+    delay: number;
+    attack: number;
+    // Seconds from the peak until the layer has faded out.
+    decay: number;
+}
+
+// A sound is a few layers played together, e.g. a noise burst over a low thump.
+export type SoundRecipe = SoundLayer[];
+
+const SOURCES: SoundSource[] = ['tone', 'noise'];
+const WAVES: OscillatorType[] = ['sine', 'square', 'sawtooth', 'triangle'];
+
+export function parseSoundLayer(raw: unknown, path: string): SoundLayer {
+    if (!isRecord(raw)) throw new Error(`${path} must be an object`);
+
+    const source = raw.source as SoundSource;
+    if (SOURCES.indexOf(source) === -1) throw new Error(`${path}.source must be one of ${SOURCES.join(', ')}`);
+
+    const wave = readString(raw, 'wave', 'sine', path) as OscillatorType;
+    if (WAVES.indexOf(wave) === -1) throw new Error(`${path}.wave must be one of ${WAVES.join(', ')}`);
+
+    const from = readNumber(raw, 'from', 440, path);
+    const layer: SoundLayer = {
+        source,
+        wave,
+        from,
+        to: readNumber(raw, 'to', from, path),
+        peak: readNumber(raw, 'peak', 0.3, path),
+        delay: Math.max(0, readNumber(raw, 'delay', 0, path)),
+        attack: Math.max(0.001, readNumber(raw, 'attack', 0.004, path)),
+        decay: readNumber(raw, 'decay', 0.1, path),
+    };
+    if (layer.from <= 0 || layer.to <= 0) throw new Error(`${path} frequencies must be above 0`);
+    if (layer.decay <= 0) throw new Error(`${path}.decay must be above 0`);
+    return layer;
+}
+
+export function parseSoundRecipe(raw: unknown, path: string): SoundRecipe {
+    if (!Array.isArray(raw) || raw.length === 0) throw new Error(`${path} must be a non-empty array of layers`);
+    return raw.map((layer, index) => parseSoundLayer(layer, `${path}[${index}]`));
+}
@@ -0,0 +1,114 @@
+import { hashString, Rng } from '../random/Rng';
+import type { SoundBuilder } from './AudioManager';
+import { soundBank } from './SoundBank';
+import type { SoundLayer } from './SoundRecipe';
+
+// Shapes of this radius play at the recipe's pitch; smaller ones sound higher, bigger ones lower.
+const REFERENCE_RADIUS = 24;
+
+// Combos raise the pitch a semitone per level, up to an octave.
+const MAX_COMBO_SEMITONES = 12;
+
+// Gain envelopes fade to this rather than 0, which exponential ramps can't reach.
+const SILENCE = 0.0001;
+
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+// One second of white noise per context, shared by every sound that needs it. Drawn from a fixed seed,
+// as the noise only has to sound random.
+function noiseBuffer(context: BaseAudioContext): AudioBuffer {
+    let buffer = noiseBuffers.get(context);
+    if (!buffer) {
+        buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+        const data = buffer.getChannelData(0);
+        const rng = new Rng(hashString('noise'));
+        for (let i = 0; i < data.length; i++) data[i] = rng.range(-1, 1);
+        noiseBuffers.set(context, buffer);
+    }
+    return buffer;
+}
+
+function sizePitch(radius: number): number {
+    return Math.sqrt(REFERENCE_RADIUS / Math.max(4, radius));
+}
+
+function semitones(count: number): number {
+    return Math.pow(2, count / 12);
+}
+
+function playLayer(context: AudioContext, output: AudioNode, start: number, layer: SoundLayer, pitch: number, stretch: number): number {
+    const when = start + layer.delay;
+    const decay = layer.decay * stretch;
+    const end = when + layer.attack + decay;
+
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0, when);
+    gain.gain.linearRampToValueAtTime(layer.peak, when + layer.attack);
+    gain.gain.exponentialRampToValueAtTime(SILENCE, end);
+    gain.connect(output);
+
+    let source: AudioScheduledSourceNode;
+    if (layer.source === 'tone') {
+        const osc = context.createOscillator();
+        osc.type = layer.wave;
+        osc.frequency.setValueAtTime(layer.from * pitch, when);
+        osc.frequency.exponentialRampToValueAtTime(layer.to * pitch, end);
+        osc.connect(gain);
+        source = osc;
+    } else {
+        const noise = context.createBufferSource();
+        noise.buffer = noiseBuffer(context);
+        noise.loop = true;
+        const filter = context.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.setValueAtTime(layer.from * pitch, when);
+        filter.frequency.exponentialRampToValueAtTime(layer.to * pitch, end);
+        noise.connect(filter).connect(gain);
+        source = noise;
+    }
+    source.start(when);
+    source.stop(end + 0.05);
+    return end + 0.05 - start;
+}
+
+/**
+ * Plays the named recipe from the sound bank. `pitch` multiplies every frequency and `stretch`
+ * every decay. Sounds missing from the bank play nothing.
+ */
+export function recipeSound(id: string, pitch = 1, stretch = 1): SoundBuilder | null {
+    const recipe = soundBank.get(id);
+    if (!recipe) return null;
+    return (context, output, when) =>
+        Math.max(...recipe.map((layer) => playLayer(context, output, when, layer, pitch, stretch)));
+}
+
+// The blip of a shot landing. Pitch rises with combo level.
+export function popSound(radius: number, combo: number): SoundBuilder | null {
+    return recipeSound('pop', sizePitch(radius) * semitones(Math.min(combo, MAX_COMBO_SEMITONES)));
+}
+
+// Bigger shapes are deeper and longer.
+export function explosionSound(radius: number): SoundBuilder | null {
+    return recipeSound('explosion', sizePitch(radius), 0.7 + Math.min(1.3, radius / 40));
+}
+
+// Plays each time the combo grows; higher combos play higher.
+export function comboSound(combo: number): SoundBuilder | null {
+    return recipeSound('combo', semitones(Math.min(combo, MAX_COMBO_SEMITONES)));
+}
+
+// A dull knock for a shot that hit nothing.
+export function missSound(): SoundBuilder | null {
+    return recipeSound('miss');
+}
+
+// A rising arpeggio for collecting a power-up.
+export function powerUpSound(): SoundBuilder | null {
+    return recipeSound('powerUp');
+}
+
+export type UiCue = 'move' | 'select';
+
+export function uiSound(cue: UiCue): SoundBuilder | null {
+    return recipeSound(cue === 'move' ? 'uiMove' : 'uiSelect');
+}
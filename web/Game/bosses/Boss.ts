@@ -0,0 +1,161 @@
+import { isRecord, readNumber, readString } from '../data/readers';
+import { parseShapeKind, ShapeKind } from '../shapes/ShapeKind';
+
+// One piece of a boss: an ordinary shape of `kind`, held at (x, y) from the boss's centre.
+export interface BossPart {
+    id: string;
+    kind: string;
+    x: number;
+    y: number;
+    // Shielded even during its phase until a chain reaction goes off close enough to the boss.
+    weakPoint: boolean;
+}
+
+// ring: evenly spaced outwards. aimed: a fan towards the player's aim. spread: random directions.
+export type BossAttackPattern = 'ring' | 'aimed' | 'spread';
+
+// Hazards the boss throws out, as shapes of `kind` launched from its centre.
+export interface BossAttack {
+    pattern: BossAttackPattern;
+    kind: string;
+    count: number;
+    // Seconds between volleys.
+    every: number;
+    // Launch speed in px/s.
+    speed: number;
+    // Width of an aimed fan, in radians.
+    spread: number;
+}
+
+// The parts that can be broken in a phase, and how the boss behaves meanwhile.
+export interface BossPhase {
+    parts: string[];
+    attacks: BossAttack[];
+    // Drift speed in px/s and spin in rad/s.
+    speed: number;
+    spin: number;
+}
+
+// How a chain reaction opens up weak points.
+export interface BossExposure {
+    // Depth a chain must reach (the player's pop is depth 0) for its blasts to count.
+    chainDepth: number;
+    // How far from the boss's edge a counting blast may be, in px.
+    reach: number;
+    // Seconds the weak points stay open.
+    seconds: number;
+}
+
+/**
+ * A boss, as plain data. Its parts are shapes in the same format as `shapeKinds.json`: either kinds
+ * already registered, or the boss's own listed in `kinds`. Phases run in order; each ends when all
+ * of its parts are broken, and breaking the last phase beats the boss.
+ */
+export interface Boss {
+    id: string;
+    name: string;
+    kinds: ShapeKind[];
+    parts: BossPart[];
+    phases: BossPhase[];
+    // Seconds every part is shielded after a phase ends.
+    transition: number;
+    exposure: BossExposure;
+}
+
+const PATTERNS: BossAttackPattern[] = ['ring', 'aimed', 'spread'];
+
+const EXPOSURE_DEFAULTS: BossExposure = { chainDepth: 2, reach: 40, seconds: 4 };
+
+function parseAttack(raw: unknown, path: string, knownKind: (id: string) => boolean): BossAttack {
+    if (!isRecord(raw)) throw new Error(`${path} must be an object`);
+    const pattern = readString(raw, 'pattern', 'ring', path) as BossAttackPattern;
+    if (PATTERNS.indexOf(pattern) === -1) throw new Error(`${path}.pattern must be one of ${PATTERNS.join(', ')}`);
+
+    const kind = readString(raw, 'kind', '', path);
+    if (!knownKind(kind)) throw new Error(`${path}.kind: unknown shape kind "${kind}"`);
+
+    const attack: BossAttack = {
+        pattern,
+        kind,
+        count: Math.round(readNumber(raw, 'count', 1, path)),
+        every: readNumber(raw, 'every', 3, path),
+        speed: readNumber(raw, 'speed', 100, path),
+        spread: readNumber(raw, 'spread', Math.PI / 4, path),
+    };
+    if (attack.count < 1) throw new Error(`${path}.count must be at least 1`);
+    if (attack.every <= 0) throw new Error(`${path}.every must be positive`);
+    return attack;
+}
+
+// Checks a boss loaded from data. `knownKind` tells whether a shape kind id exists outside the boss's own kinds.
+export function parseBoss(raw: unknown, path = 'boss', knownKind: (id: string) => boolean = () => false): Boss {
+    if (!isRecord(raw)) throw new Error(`${path} must be an object`);
+    if (typeof raw.id !== 'string' || raw.id === '') throw new Error(`${path}.id must be a non-empty string`);
+
+    const rawKinds = raw.kinds === undefined ? [] : raw.kinds;
+    if (!Array.isArray(rawKinds)) throw new Error(`${path}.kinds must be an array`);
+    const kinds = rawKinds.map((kind, index) => parseShapeKind(kind, `${path}.kinds[${index}]`));
+    const known = (id: string) => knownKind(id) || kinds.some((kind) => kind.id === id);
+
+    if (!Array.isArray(raw.parts) || raw.parts.length === 0) throw new Error(`${path}.parts must be a non-empty array`);
+    const parts = raw.parts.map((part, index): BossPart => {
+        const at = `${path}.parts[${index}]`;
+        if (!isRecord(part)) throw new Error(`${at} must be an object`);
+        const kind = readString(part, 'kind', '', at);
+        if (!known(kind)) throw new Error(`${at}.kind: unknown shape kind "${kind}"`);
+        return {
+            id: readString(part, 'id', `part${index}`, at),
+            kind,
+            x: readNumber(part, 'x', 0, at),
+            y: readNumber(part, 'y', 0, at),
+            weakPoint: part.weakPoint === true,
+        };
+    });
+    const partIds = parts.map((part) => part.id);
+    if (partIds.some((id, index) => partIds.indexOf(id) !== index)) throw new Error(`${path}.parts ids must be unique`);
+
+    if (!Array.isArray(raw.phases) || raw.phases.length === 0) throw new Error(`${path}.phases must be a non-empty array`);
+    const claimed: string[] = [];
+    const phases = raw.phases.map((phase, index): BossPhase => {
+        const at = `${path}.phases[${index}]`;
+        if (!isRecord(phase)) throw new Error(`${at} must be an object`);
+        if (!Array.isArray(phase.parts) || phase.parts.length === 0) throw new Error(`${at}.parts must list at least one part id`);
+        phase.parts.forEach((id, partIndex) => {
+            if (typeof id !== 'string' || partIds.indexOf(id) === -1) throw new Error(`${at}.parts[${partIndex}] is not a part of this boss`);
+            if (claimed.indexOf(id) !== -1) throw new Error(`${at}.parts[${partIndex}]: "${id}" already belongs to an earlier phase`);
+            claimed.push(id);
+        });
+
+        const attacks = phase.attacks === undefined ? [] : phase.attacks;
+        if (!Array.isArray(attacks)) throw new Error(`${at}.attacks must be an array`);
+        return {
+            parts: phase.parts as string[],
+            attacks: attacks.map((attack, attackIndex) => parseAttack(attack, `${at}.attacks[${attackIndex}]`, known)),
+            speed: readNumber(phase, 'speed', 30, at),
+            spin: readNumber(phase, 'spin', 0, at),
+        };
+    });
+
+    let exposure = EXPOSURE_DEFAULTS;
+    if (raw.exposure !== undefined) {
+        if (!isRecord(raw.exposure)) throw new Error(`${path}.exposure must be an object`);
+        exposure = {
+            chainDepth: Math.round(readNumber(raw.exposure, 'chainDepth', EXPOSURE_DEFAULTS.chainDepth, `${path}.exposure`)),
+            reach: readNumber(raw.exposure, 'reach', EXPOSURE_DEFAULTS.reach, `${path}.exposure`),
+            seconds: readNumber(raw.exposure, 'seconds', EXPOSURE_DEFAULTS.seconds, `${path}.exposure`),
+        };
+    }
+
+    const transition = readNumber(raw, 'transition', 1.5, path);
+    if (transition < 0) throw new Error(`${path}.transition must not be negative`);
+
+    return {
+        id: raw.id,
+        name: readString(raw, 'name', raw.id, path),
+        kinds,
+        parts,
+        phases,
+        transition,
+        exposure,
+    };
+}
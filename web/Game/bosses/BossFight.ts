@@ -0,0 +1,229 @@
+import type { ChainLink } from '../gameplay/ChainReactor';
+import type { Rng } from '../random/Rng';
+import type { Shape } from '../shapes/Shape';
+import type { Boss, BossAttack, BossPart } from './Boss';
+
+// A hazard thrown out by an attack, to be spawned as a shape of `kind` moving at (vx, vy).
+export interface BossAttackSpawn {
+    kind: string;
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+}
+
+export interface BossStepResult {
+    attacks: BossAttackSpawn[];
+    // The phase that just began, if one did this step.
+    phaseStarted: number | null;
+    defeated: boolean;
+}
+
+// Makes the shape for one part. The fight takes over its movement.
+export type BossPartFactory = (kind: string, x: number, y: number) => Shape;
+
+interface LivePart {
+    part: BossPart;
+    shape: Shape;
+    // Index of the phase it belongs to, or -1 for armour that only falls off when the boss is beaten.
+    phase: number;
+}
+
+/**
+ * A boss on the board. Its parts are ordinary shapes, so pops, chains and power-ups hit them as usual;
+ * the fight moves them as one body and shields every part that can't be broken yet.
+ */
+export class BossFight {
+    private readonly parts: LivePart[];
+    // Reach of the whole body from its centre, in px.
+    readonly radius: number;
+    private x: number;
+    private y: number;
+    private vx: number;
+    private vy: number;
+    private rotation = 0;
+    private phaseIndex = 0;
+    private transition = 0;
+    private exposed = 0;
+    private attackTimers: number[] = [];
+    private done = false;
+
+    constructor(
+        readonly boss: Boss,
+        x: number,
+        y: number,
+        private readonly boardWidth: number,
+        private readonly boardHeight: number,
+        private readonly rng: Rng,
+        makePart: BossPartFactory,
+    ) {
+        let radius = 0;
+        this.parts = boss.parts.map((part) => {
+            const shape = makePart(part.kind, x + part.x, y + part.y);
+            shape.vx = shape.vy = shape.spin = 0;
+            radius = Math.max(radius, Math.sqrt(part.x * part.x + part.y * part.y) + shape.radius);
+            return { part, shape, phase: boss.phases.findIndex((phase) => phase.parts.indexOf(part.id) !== -1) };
+        });
+        this.radius = radius;
+
+        this.x = Math.max(this.radius, Math.min(boardWidth - this.radius, x));
+        this.y = Math.max(this.radius, Math.min(boardHeight - this.radius, y));
+        const heading = rng.range(0, Math.PI * 2);
+        this.vx = Math.cos(heading);
+        this.vy = Math.sin(heading);
+        this.startPhase(0);
+        this.placeParts(true);
+    }
+
+    get phase(): number {
+        return this.phaseIndex;
+    }
+
+    get defeated(): boolean {
+        return this.done;
+    }
+
+    // Whether weak points are currently open.
+    get weakPointsExposed(): boolean {
+        return this.exposed > 0;
+    }
+
+    // Hit points left in breakable parts, 0 to 1.
+    get health(): number {
+        let left = 0;
+        let total = 0;
+        this.parts.forEach(({ shape, phase }) => {
+            if (phase === -1) return;
+            total += shape.maxHitPoints;
+            if (shape.alive) left += Math.max(0, shape.hitPoints);
+        });
+        return total > 0 ? left / total : 0;
+    }
+
+    owns(shape: Shape): boolean {
+        return this.parts.some((live) => live.shape === shape);
+    }
+
+    // Opens the weak points if a deep enough chain went off close to the boss.
+    chainReached(link: ChainLink): boolean {
+        const { exposure } = this.boss;
+        if (this.done || link.depth < exposure.chainDepth) return false;
+
+        const dx = link.shape.x - this.x;
+        const dy = link.shape.y - this.y;
+        if (Math.sqrt(dx * dx + dy * dy) > this.radius + exposure.reach) return false;
+
+        const opened = this.exposed <= 0;
+        this.exposed = exposure.seconds;
+        return opened;
+    }
+
+    /**
+     * Moves the body and fires attacks. Call after the shapes themselves have stepped, so each part's
+     * previous position is where it was drawn last step. `aimX`/`aimY` is what aimed attacks fire at.
+     */
+    step(dt: number, aimX: number, aimY: number): BossStepResult {
+        const result: BossStepResult = { attacks: [], phaseStarted: null, defeated: false };
+        if (this.done) return result;
+
+        const phase = this.boss.phases[this.phaseIndex];
+        this.x += this.vx * phase.speed * dt;
+        this.y += this.vy * phase.speed * dt;
+        // Turn back at the walls, like a single shape's bounce but for the whole body.
+        if (this.x < this.radius) this.vx = Math.abs(this.vx);
+        else if (this.x > this.boardWidth - this.radius) this.vx = -Math.abs(this.vx);
+        if (this.y < this.radius) this.vy = Math.abs(this.vy);
+        else if (this.y > this.boardHeight - this.radius) this.vy = -Math.abs(this.vy);
+        this.rotation += phase.spin * dt;
+        this.placeParts(false);
+
+        this.transition = Math.max(0, this.transition - dt);
+        this.exposed = Math.max(0, this.exposed - dt);
+
+        const current = this.parts.filter((live) => live.phase === this.phaseIndex);
+        if (current.every((live) => !live.shape.alive)) {
+            if (this.phaseIndex === this.boss.phases.length - 1) {
+                this.defeat();
+                result.defeated = true;
+                return result;
+            }
+            this.startPhase(this.phaseIndex + 1);
+            result.phaseStarted = this.phaseIndex;
+        }
+
+        // The phase may have just changed, and its attacks are the ones the timers now track.
+        if (this.transition <= 0) {
+            this.boss.phases[this.phaseIndex].attacks.forEach((attack, index) => {
+                this.attackTimers[index] -= dt;
+                if (this.attackTimers[index] > 0) return;
+                this.attackTimers[index] += attack.every;
+                this.fire(attack, aimX, aimY, result.attacks);
+            });
+        }
+
+        this.parts.forEach((live) => (live.shape.shielded = !this.breakable(live)));
+        return result;
+    }
+
+    private breakable(live: LivePart): boolean {
+        if (this.transition > 0 || live.phase !== this.phaseIndex) return false;
+        return !live.part.weakPoint || this.exposed > 0;
+    }
+
+    private startPhase(index: number): void {
+        this.phaseIndex = index;
+        this.exposed = 0;
+        // The first phase starts straight away; later ones give the player a moment first.
+        if (index > 0) this.transition = this.boss.transition;
+        this.attackTimers = this.boss.phases[index].attacks.map((attack) => attack.every);
+        this.parts.forEach((live) => (live.shape.shielded = !this.breakable(live)));
+    }
+
+    // Armour never belongs to a phase, so it's knocked off once the last phase is broken.
+    private defeat(): void {
+        this.done = true;
+        this.parts.forEach(({ shape }) => {
+            shape.shielded = false;
+            if (shape.alive) shape.damage(shape.hitPoints);
+        });
+    }
+
+    private placeParts(snap: boolean): void {
+        const cos = Math.cos(this.rotation);
+        const sin = Math.sin(this.rotation);
+        this.parts.forEach(({ part, shape }) => {
+            shape.x = this.x + part.x * cos - part.y * sin;
+            shape.y = this.y + part.x * sin + part.y * cos;
+            shape.rotation = this.rotation;
+            if (snap) {
+                shape.prevX = shape.x;
+                shape.prevY = shape.y;
+                shape.prevRotation = shape.rotation;
+            }
+        });
+    }
+
+    private fire(attack: BossAttack, aimX: number, aimY: number, out: BossAttackSpawn[]): void {
+        const aim = Math.atan2(aimY - this.y, aimX - this.x);
+        for (let i = 0; i < attack.count; i++) {
+            let angle: number;
+            if (attack.pattern === 'ring') {
+                angle = this.rotation + (i / attack.count) * Math.PI * 2;
+            } else if (attack.pattern === 'aimed') {
+                angle = attack.count === 1 ? aim : aim - attack.spread / 2 + (i / (attack.count - 1)) * attack.spread;
+            } else {
+                angle = this.rng.range(0, Math.PI * 2);
+            }
+
+            const dx = Math.cos(angle);
+            const dy = Math.sin(angle);
+            out.push({
+                kind: attack.kind,
+                x: this.x + dx * this.radius,
+                y: this.y + dy * this.radius,
+                vx: dx * attack.speed,
+                vy: dy * attack.speed,
+            });
+        }
+    }
+}
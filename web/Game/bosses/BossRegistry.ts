@@ -0,0 +1,52 @@
+import { shapeKinds } from '../shapes/ShapeKindRegistry';
+import type { ShapeKindRegistry } from '../shapes/ShapeKindRegistry';
+import { Boss, parseBoss } from './Boss';
+import bossData from './bosses.json';
+
+export class BossRegistry {
+    private readonly bosses = new Map<string, Boss>();
+    private readonly order: string[] = [];
+
+    // Shape kinds the bosses' parts and attacks may use besides their own.
+    constructor(private readonly kinds: ShapeKindRegistry) {}
+
+    // Accepts raw data (e.g. parsed JSON).
+    register(raw: unknown): Boss {
+        const boss = parseBoss(raw, `boss[${this.order.length}]`, (id) => this.kinds.has(id));
+        if (!this.bosses.has(boss.id)) this.order.push(boss.id);
+        this.bosses.set(boss.id, boss);
+        return boss;
+    }
+
+    registerAll(raw: unknown[]): void {
+        raw.forEach((entry) => this.register(entry));
+    }
+
+    has(id: string): boolean {
+        return this.bosses.has(id);
+    }
+
+    get(id: string): Boss {
+        const boss = this.bosses.get(id);
+        if (!boss) throw new Error(`Unknown boss "${id}"`);
+        return boss;
+    }
+
+    // A copy that can take extra bosses (e.g. a level's own) checked against `kinds`, without changing this registry.
+    clone(kinds: ShapeKindRegistry = this.kinds): BossRegistry {
+        const copy = new BossRegistry(kinds);
+        this.order.forEach((id) => {
+            copy.bosses.set(id, this.bosses.get(id) as Boss);
+            copy.order.push(id);
+        });
+        return copy;
+    }
+
+    all(): Boss[] {
+        return this.order.map((id) => this.bosses.get(id) as Boss);
+    }
+}
+
+// The built-in bosses shipped with the game.
+export const bosses = new BossRegistry(shapeKinds);
+bosses.registerAll(bossData);
@@ -0,0 +1,102 @@
+import { emptySnapshot, InputSnapshot, quantize } from '../input/InputSnapshot';
+import type { Rng } from '../random/Rng';
+import type { Simulation } from '../sim/Simulation';
+import type { BotStrategy, BotTarget } from './BotStrategy';
+
+export interface BotSkill {
+    // Seconds between picking a target and popping it, which is also the fastest the bot pops.
+    reactionTime: number;
+    // How far a pop can land from where the bot meant it to, in px.
+    aimJitter: number;
+}
+
+export type BotSkillLevel = 'novice' | 'average' | 'expert';
+
+export const BOT_SKILLS: Record<BotSkillLevel, BotSkill> = {
+    novice: { reactionTime: 0.6, aimJitter: 14 },
+    average: { reactionTime: 0.35, aimJitter: 7 },
+    expert: { reactionTime: 0.18, aimJitter: 2 },
+};
+
+// Fraction of the reaction time the aim takes to settle on a new target.
+const AIM_SETTLE = 0.5;
+
+/**
+ * Plays a round the way a person would: it only ever produces input snapshots, in board coordinates,
+ * so the simulation can't tell it from a player and its runs record and replay like anyone else's.
+ * The strategy picks targets; the bot's skill decides how quickly and how accurately it pops them.
+ */
+export class Bot {
+    private target: BotTarget | null = null;
+    private wait = 0;
+    private aimX: number;
+    private aimY: number;
+    private tick = 0;
+
+    constructor(
+        readonly strategy: BotStrategy,
+        readonly skill: BotSkill,
+        private readonly sim: Simulation,
+        private readonly rng: Rng,
+    ) {
+        const { board } = sim.level.level;
+        this.aimX = board.width / 2;
+        this.aimY = board.height / 2;
+    }
+
+    // The input for the next simulation step.
+    next(dt: number): InputSnapshot {
+        const input = emptySnapshot(this.tick++);
+        const { board } = this.sim.level.level;
+
+        // Shields go up too, e.g. on a boss weak point whose exposure ran out; strategies skip those as well.
+        const lost = this.target && this.target.shape && (!this.target.shape.alive || this.target.shape.shielded);
+        if (!this.target || lost) this.pickTarget();
+        this.wait -= dt;
+
+        const goal = this.target ? this.goalOf(this.target) : { x: this.aimX, y: this.aimY };
+        const settle = Math.min(1, dt / Math.max(dt, this.skill.reactionTime * AIM_SETTLE));
+        this.aimX += (goal.x - this.aimX) * settle;
+        this.aimY += (goal.y - this.aimY) * settle;
+
+        if (this.target && this.wait <= 0) {
+            // Lands somewhere in a disc around the goal, denser towards the middle.
+            const angle = this.rng.next() * Math.PI * 2;
+            const distance = this.rng.next() * this.skill.aimJitter;
+            const x = quantize(Math.max(0, Math.min(board.width, goal.x + Math.cos(angle) * distance)));
+            const y = quantize(Math.max(0, Math.min(board.height, goal.y + Math.sin(angle) * distance)));
+            input.pressed.push('pop');
+            input.triggers.push({ action: 'pop', x, y });
+            this.aimX = x;
+            this.aimY = y;
+
+            // Tough shapes need more than one pop; stay on them, otherwise look for the next target.
+            if (!this.target.shape) this.target = null;
+            this.wait = this.skill.reactionTime;
+        }
+
+        input.aimX = quantize(this.aimX);
+        input.aimY = quantize(this.aimY);
+        return input;
+    }
+
+    private pickTarget(): void {
+        const { board } = this.sim.level.level;
+        const powerUps = this.sim.powerUps;
+        const lead = Math.max(this.wait, this.skill.reactionTime);
+        this.target = this.strategy.choose({
+            shapes: this.sim.shapes,
+            boardWidth: board.width,
+            boardHeight: board.height,
+            lead,
+            isPowerUp: (shape) => powerUps.isCollectible(shape),
+            random: this.rng,
+        });
+        if (this.target) this.wait = lead + this.target.hold;
+    }
+
+    // Tracks a moving target; a spot on the board stays put.
+    private goalOf(target: BotTarget): { x: number; y: number } {
+        return target.shape ? { x: target.shape.x, y: target.shape.y } : { x: target.x, y: target.y };
+    }
+}
@@ -0,0 +1,39 @@
+import type { Rng } from '../random/Rng';
+import type { Shape } from '../shapes/Shape';
+
+// What a bot goes for next: a shape to track, or just a spot on the board.
+export interface BotTarget {
+    shape: Shape | null;
+    // Where to pop when there is no shape to track, in board coordinates.
+    x: number;
+    y: number;
+    // Extra seconds to hold off before popping, on top of the bot's reaction time.
+    hold: number;
+}
+
+// The round as a bot sees it when picking a target.
+export interface BotContext {
+    shapes: readonly Shape[];
+    boardWidth: number;
+    boardHeight: number;
+    // Seconds until the bot can act on its choice, i.e. its reaction time.
+    lead: number;
+    isPowerUp(shape: Shape): boolean;
+    random: Rng;
+}
+
+/**
+ * How a bot picks what to pop, registered under an id so designers can pick one by name.
+ * Strategies only choose; the bot does the aiming, waiting and missing.
+ */
+export interface BotStrategy {
+    id: string;
+    label: string;
+    // Returns null when there is nothing worth popping right now.
+    choose(context: BotContext): BotTarget | null;
+}
+
+// Shapes a single pop can hurt: alive and not shielded.
+export function poppable(context: BotContext): Shape[] {
+    return context.shapes.filter((shape) => shape.alive && !shape.shielded);
+}
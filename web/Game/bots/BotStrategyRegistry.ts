@@ -0,0 +1,32 @@
+import type { BotStrategy } from './BotStrategy';
+import { greedyChain, lookahead, randomClicker } from './strategies';
+
+export class BotStrategyRegistry {
+    private readonly strategies = new Map<string, BotStrategy>();
+    private readonly order: string[] = [];
+
+    register(strategy: BotStrategy): void {
+        if (!this.strategies.has(strategy.id)) this.order.push(strategy.id);
+        this.strategies.set(strategy.id, strategy);
+    }
+
+    has(id: string): boolean {
+        return this.strategies.has(id);
+    }
+
+    get(id: string): BotStrategy {
+        const strategy = this.strategies.get(id);
+        if (!strategy) throw new Error(`Unknown bot strategy "${id}"`);
+        return strategy;
+    }
+
+    // In registration order.
+    all(): BotStrategy[] {
+        return this.order.map((id) => this.get(id));
+    }
+}
+
+export const botStrategies = new BotStrategyRegistry();
+botStrategies.register(greedyChain);
+botStrategies.register(randomClicker);
+botStrategies.register(lookahead);
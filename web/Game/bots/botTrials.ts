@@ -0,0 +1,137 @@
+import { STEPS_PER_SECOND } from '../config';
+import type { Level } from '../levels/Level';
+import { hashString, Rng } from '../random/Rng';
+import type { ReplayRecorder } from '../replay/ReplayRecorder';
+import { Simulation } from '../sim/Simulation';
+import { Bot, BotSkill } from './Bot';
+import { botStrategies } from './BotStrategyRegistry';
+
+// Untimed levels a bot can't finish are called off after this many simulated seconds.
+const DEFAULT_MAX_SECONDS = 600;
+
+export interface BotTrialOptions {
+    strategy: string;
+    skill: BotSkill;
+    maxSeconds?: number;
+    // Records the bot's input, e.g. to check that the run replays to the same score.
+    recorder?: ReplayRecorder;
+}
+
+export interface BotTrial {
+    seed: number;
+    // False if the round was called off before it was decided.
+    finished: boolean;
+    cleared: boolean;
+    score: number;
+    elapsed: number;
+}
+
+export interface ScoreBucket {
+    from: number;
+    to: number;
+    count: number;
+}
+
+export interface ScoreDistribution {
+    runs: number;
+    // Fraction of runs that cleared the level.
+    winRate: number;
+    // Runs called off at the time cap; a high count means the level may not end for weak players.
+    unfinished: number;
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+    p10: number;
+    p90: number;
+    histogram: ScoreBucket[];
+}
+
+/**
+ * One bot trial that can be played a slice at a time, e.g. so a page stays responsive while long
+ * runs play out. The same seed and options always give the same trial, however it is sliced.
+ */
+export class BotTrialRun {
+    private readonly sim: Simulation;
+    private readonly bot: Bot;
+    private readonly maxSteps: number;
+    private steps = 0;
+    private ended = false;
+
+    constructor(level: Level, readonly seed: number, private readonly options: BotTrialOptions) {
+        this.sim = new Simulation({ level, seed });
+        this.bot = new Bot(botStrategies.get(options.strategy), options.skill, this.sim, new Rng(hashString(`${seed}:bot`)));
+        this.maxSteps = Math.ceil((options.maxSeconds || DEFAULT_MAX_SECONDS) * STEPS_PER_SECOND);
+    }
+
+    get done(): boolean {
+        return this.ended || this.steps >= this.maxSteps;
+    }
+
+    // Plays up to `steps` more simulation steps. Returns true once the trial is over.
+    advance(steps: number): boolean {
+        const dt = 1 / STEPS_PER_SECOND;
+        for (let i = 0; i < steps && !this.done; i++) {
+            const input = this.bot.next(dt);
+            if (this.options.recorder) this.options.recorder.record(input);
+            this.steps++;
+            if (this.sim.step(dt, input)) this.ended = true;
+        }
+        return this.done;
+    }
+
+    // Ends the trial where it stands and sums it up. Call once, after `advance` has returned true.
+    finish(): BotTrial {
+        this.sim.clear();
+        const result = this.sim.result;
+        return {
+            seed: this.seed,
+            finished: result !== null,
+            cleared: result !== null && result.cleared,
+            score: result ? result.score.total : this.sim.score.summary().total,
+            elapsed: this.sim.elapsed,
+        };
+    }
+}
+
+// Plays `level` once with a bot, headlessly, start to finish.
+export function runBotTrial(level: Level, seed: number, options: BotTrialOptions): BotTrial {
+    const run = new BotTrialRun(level, seed, options);
+    run.advance(Infinity);
+    return run.finish();
+}
+
+function percentile(sorted: number[], fraction: number): number {
+    if (sorted.length === 0) return 0;
+    return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
+
+// Sums up a batch of trials as designers read them: win rate, spread of scores and a histogram.
+export function summarizeTrials(trials: BotTrial[], buckets = 10): ScoreDistribution {
+    const scores = trials.map((trial) => trial.score).sort((a, b) => a - b);
+    const runs = trials.length;
+    const min = runs > 0 ? scores[0] : 0;
+    const max = runs > 0 ? scores[runs - 1] : 0;
+    const width = Math.max(1, Math.ceil((max - min + 1) / buckets));
+
+    const histogram: ScoreBucket[] = [];
+    for (let i = 0; i < buckets && min + i * width <= max; i++) {
+        histogram.push({ from: min + i * width, to: min + (i + 1) * width, count: 0 });
+    }
+    scores.forEach((score) => histogram[Math.min(histogram.length - 1, Math.floor((score - min) / width))].count++);
+
+    let total = 0;
+    scores.forEach((score) => (total += score));
+    return {
+        runs,
+        winRate: runs > 0 ? trials.filter((trial) => trial.cleared).length / runs : 0,
+        unfinished: trials.filter((trial) => !trial.finished).length,
+        min,
+        max,
+        mean: runs > 0 ? total / runs : 0,
+        median: percentile(scores, 0.5),
+        p10: percentile(scores, 0.1),
+        p90: percentile(scores, 0.9),
+        histogram,
+    };
+}
@@ -0,0 +1,61 @@
+import type { Shape } from '../shapes/Shape';
+
+export interface ChainEstimate {
+    // Shapes destroyed, including the one popped.
+    size: number;
+    points: number;
+}
+
+// Where `shape` will be `seconds` from now if it keeps going in a straight line, kept inside the board.
+export function predictPosition(shape: Shape, seconds: number, boardWidth: number, boardHeight: number): { x: number; y: number } {
+    return {
+        x: Math.max(shape.radius, Math.min(boardWidth - shape.radius, shape.x + shape.vx * seconds)),
+        y: Math.max(shape.radius, Math.min(boardHeight - shape.radius, shape.y + shape.vy * seconds)),
+    };
+}
+
+/**
+ * Roughly what popping `start` would set off, with every shape where it will be `seconds` from now.
+ * Follows the same blast rules as the chain reactor but treats the board as frozen while the chain
+ * plays out, so it is an estimate for bots to rank targets by, never a prediction of the score.
+ */
+export function estimateChain(
+    shapes: readonly Shape[],
+    start: Shape,
+    seconds: number,
+    boardWidth: number,
+    boardHeight: number,
+): ChainEstimate {
+    const positions = shapes.map((shape) => predictPosition(shape, seconds, boardWidth, boardHeight));
+    const hitPoints = shapes.map((shape) => shape.hitPoints);
+    const queue = [shapes.indexOf(start)];
+    if (queue[0] === -1) return { size: 0, points: 0 };
+
+    hitPoints[queue[0]] = 0;
+    const estimate: ChainEstimate = { size: 1, points: start.points };
+
+    while (queue.length > 0) {
+        const source = queue.shift() as number;
+        const spec = shapes[source].kind.blast;
+        if (spec.radius <= 0 || spec.damage <= 0) continue;
+
+        const from = positions[source];
+        for (let i = 0; i < shapes.length; i++) {
+            const target = shapes[i];
+            if (hitPoints[i] <= 0 || !target.alive || target.shielded) continue;
+
+            const dx = positions[i].x - from.x;
+            const dy = positions[i].y - from.y;
+            const distance = Math.sqrt(dx * dx + dy * dy);
+            if (distance > spec.radius + target.radius) continue;
+
+            hitPoints[i] -= spec.damage * (1 - spec.falloff * Math.min(1, distance / spec.radius));
+            if (hitPoints[i] <= 0) {
+                estimate.size++;
+                estimate.points += target.points;
+                queue.push(i);
+            }
+        }
+    }
+    return estimate;
+}
@@ -0,0 +1,91 @@
+import type { Shape } from '../shapes/Shape';
+import type { BotContext, BotStrategy, BotTarget } from './BotStrategy';
+import { poppable } from './BotStrategy';
+import { estimateChain } from './estimateChain';
+
+// Extra moments the lookahead strategy considers waiting for, in seconds after it could first act.
+const LOOKAHEAD_HOLDS = [0, 0.25, 0.5, 0.75];
+// How much waiting costs the lookahead strategy: a chain worth waiting half a second for must be twice as good.
+const HOLD_PENALTY = 2;
+// What the lookahead strategy thinks a power-up is worth, in points.
+const POWER_UP_VALUE = 150;
+
+function track(shape: Shape, hold = 0): BotTarget {
+    return { shape, x: shape.x, y: shape.y, hold };
+}
+
+// The shape that takes the fewest pops to break, for when nothing goes down in one.
+function weakest(shapes: Shape[]): Shape {
+    return shapes.reduce((best, shape) => (shape.hitPoints < best.hitPoints ? shape : best));
+}
+
+// Pops anywhere on the board, hit or miss. The floor any level should be beatable above.
+export const randomClicker: BotStrategy = {
+    id: 'random',
+    label: 'Random clicker',
+    choose(context) {
+        return {
+            shape: null,
+            x: context.random.range(0, context.boardWidth),
+            y: context.random.range(0, context.boardHeight),
+            hold: 0,
+        };
+    },
+};
+
+// Always goes for the pop that sets off the biggest chain from where shapes are about to be.
+export const greedyChain: BotStrategy = {
+    id: 'greedy',
+    label: 'Greedy biggest chain',
+    choose(context) {
+        const shapes = poppable(context);
+        if (shapes.length === 0) return null;
+
+        const oneShot = shapes.filter((shape) => shape.hitPoints <= 1);
+        if (oneShot.length === 0) return track(weakest(shapes));
+
+        let best = oneShot[0];
+        let bestValue = -1;
+        oneShot.forEach((shape) => {
+            const chain = estimateChain(context.shapes, shape, context.lead, context.boardWidth, context.boardHeight);
+            const value = chain.points + chain.size;
+            if (value > bestValue) {
+                best = shape;
+                bestValue = value;
+            }
+        });
+        return track(best);
+    },
+};
+
+/**
+ * Weighs every one-pop target at a few moments ahead and will wait for shapes to drift into a better
+ * cluster when that pays for the wait. Grabs power-ups when they are worth more than the best chain.
+ */
+export const lookahead: BotStrategy = {
+    id: 'lookahead',
+    label: 'Lookahead',
+    choose(context) {
+        const shapes = poppable(context);
+        if (shapes.length === 0) return null;
+
+        const oneShot = shapes.filter((shape) => shape.hitPoints <= 1);
+        if (oneShot.length === 0) return track(weakest(shapes));
+
+        let best: BotTarget | null = null;
+        let bestValue = -1;
+        LOOKAHEAD_HOLDS.forEach((hold) => {
+            const seconds = context.lead + hold;
+            oneShot.forEach((shape) => {
+                const chain = estimateChain(context.shapes, shape, seconds, context.boardWidth, context.boardHeight);
+                const bonus = context.isPowerUp(shape) ? POWER_UP_VALUE : 0;
+                const value = (chain.points + chain.size + bonus) / (1 + hold * HOLD_PENALTY);
+                if (value > bestValue) {
+                    best = track(shape, hold);
+                    bestValue = value;
+                }
+            });
+        });
+        return best;
+    },
+};
@@ -0,0 +1,137 @@
+import { SpatialHash } from './SpatialHash';
+import {
+    circlesOverlap,
+    convexPolygonOverlapsCircle,
+    convexPolygonsOverlap,
+    fanTriangles,
+    pointInPolygon,
+    polygonOverlapsCircle,
+} from './sat';
+
+/**
+ * The parts of an entity the collision module needs. `outline` is in local space around (x, y);
+ * `radius` bounds it. Circles ignore the outline and use `radius` directly.
+ */
+export interface CollisionBody {
+    id: number;
+    x: number;
+    y: number;
+    rotation: number;
+    radius: number;
+    outline: number[];
+    circle: boolean;
+    convex: boolean;
+}
+
+// Grid cell size, roughly twice the radius of a typical shape.
+const DEFAULT_CELL_SIZE = 64;
+
+/**
+ * Answers hit, radius and overlap queries against a set of bodies.
+ *
+ * Call `rebuild` once per step after bodies have moved; queries then run against that snapshot.
+ * Nothing here touches the renderer, so it runs the same in the browser and headless.
+ */
+export class CollisionWorld<T extends CollisionBody> {
+    private readonly hash: SpatialHash<T>;
+    private readonly order = new Map<number, number>();
+    private readonly worldOutlines = new Map<number, number[]>();
+
+    constructor(cellSize = DEFAULT_CELL_SIZE) {
+        this.hash = new SpatialHash<T>(cellSize);
+    }
+
+    rebuild(bodies: T[]): void {
+        this.hash.clear();
+        this.order.clear();
+        this.worldOutlines.clear();
+        for (let i = 0; i < bodies.length; i++) {
+            this.hash.insert(bodies[i]);
+            this.order.set(bodies[i].id, i);
+        }
+    }
+
+    /**
+     * Bodies under the point (x, y), topmost (most recently added) first.
+     * A `tolerance` turns the point into a small circle so fingers don't need pixel precision.
+     */
+    hitTestPoint(x: number, y: number, tolerance = 0): T[] {
+        const hits = this.hash.query(x, y, tolerance).filter((body) =>
+            tolerance > 0 ? this.overlapsCircle(body, x, y, tolerance) : this.containsPoint(body, x, y),
+        );
+        return this.sortTopmostFirst(hits);
+    }
+
+    // Bodies any part of which lies within `radius` of (x, y), e.g. everything caught by a blast.
+    queryCircle(x: number, y: number, radius: number): T[] {
+        const hits = this.hash.query(x, y, radius).filter((body) => this.overlapsCircle(body, x, y, radius));
+        return this.sortTopmostFirst(hits);
+    }
+
+    // Every pair of bodies whose shapes currently intersect.
+    overlappingPairs(): Array<[T, T]> {
+        const pairs: Array<[T, T]> = [];
+        this.hash.forEachPair((a, b) => {
+            if (this.bodiesOverlap(a, b)) pairs.push([a, b]);
+        });
+        return pairs;
+    }
+
+    containsPoint(body: T, x: number, y: number): boolean {
+        if (body.circle) return circlesOverlap(body.x, body.y, body.radius, x, y, 0);
+        if (!circlesOverlap(body.x, body.y, body.radius, x, y, 0)) return false;
+        return pointInPolygon(this.worldOutline(body), x, y);
+    }
+
+    overlapsCircle(body: T, x: number, y: number, radius: number): boolean {
+        if (!circlesOverlap(body.x, body.y, body.radius, x, y, radius)) return false;
+        if (body.circle) return true;
+
+        const outline = this.worldOutline(body);
+        return body.convex
+            ? convexPolygonOverlapsCircle(outline, x, y, radius)
+            : polygonOverlapsCircle(outline, x, y, radius);
+    }
+
+    bodiesOverlap(a: T, b: T): boolean {
+        if (!circlesOverlap(a.x, a.y, a.radius, b.x, b.y, b.radius)) return false;
+        if (a.circle && b.circle) return true;
+        if (a.circle) return this.overlapsCircle(b, a.x, a.y, a.radius);
+        if (b.circle) return this.overlapsCircle(a, b.x, b.y, b.radius);
+
+        const outlineA = this.worldOutline(a);
+        const outlineB = this.worldOutline(b);
+        if (a.convex && b.convex) return convexPolygonsOverlap(outlineA, outlineB);
+
+        // Concave shapes (stars, jittered polygons) are tested as fans of convex triangles.
+        const partsA = a.convex ? [outlineA] : fanTriangles(outlineA, a.x, a.y);
+        const partsB = b.convex ? [outlineB] : fanTriangles(outlineB, b.x, b.y);
+        for (let i = 0; i < partsA.length; i++) {
+            for (let j = 0; j < partsB.length; j++) {
+                if (convexPolygonsOverlap(partsA[i], partsB[j])) return true;
+            }
+        }
+        return false;
+    }
+
+    // The body's outline rotated and moved into world space, cached until the next rebuild.
+    private worldOutline(body: T): number[] {
+        let outline = this.worldOutlines.get(body.id);
+        if (outline) return outline;
+
+        const local = body.outline;
+        const cos = Math.cos(body.rotation);
+        const sin = Math.sin(body.rotation);
+        outline = new Array<number>(local.length);
+        for (let i = 0; i < local.length; i += 2) {
+            outline[i] = body.x + local[i] * cos - local[i + 1] * sin;
+            outline[i + 1] = body.y + local[i] * sin + local[i + 1] * cos;
+        }
+        this.worldOutlines.set(body.id, outline);
+        return outline;
+    }
+
+    private sortTopmostFirst(bodies: T[]): T[] {
+        return bodies.sort((a, b) => (this.order.get(b.id) || 0) - (this.order.get(a.id) || 0));
+    }
+}
@@ -0,0 +1,91 @@
+export interface Bounded {
+    id: number;
+    x: number;
+    y: number;
+    radius: number;
+}
+
+// Packs a cell coordinate pair into one number. Good for ±32k cells on each axis.
+function cellKey(cx: number, cy: number): number {
+    return (cx + 32768) * 65536 + (cy + 32768);
+}
+
+/**
+ * Broad phase: buckets items by the grid cells their bounding circle touches, so queries only
+ * look at nearby items instead of every live entity.
+ */
+export class SpatialHash<T extends Bounded> {
+    private readonly cells = new Map<number, T[]>();
+    private readonly spare: T[][] = [];
+
+    constructor(readonly cellSize: number) {}
+
+    clear(): void {
+        this.cells.forEach((cell) => {
+            cell.length = 0;
+            this.spare.push(cell);
+        });
+        this.cells.clear();
+    }
+
+    insert(item: T): void {
+        const size = this.cellSize;
+        const minX = Math.floor((item.x - item.radius) / size);
+        const maxX = Math.floor((item.x + item.radius) / size);
+        const minY = Math.floor((item.y - item.radius) / size);
+        const maxY = Math.floor((item.y + item.radius) / size);
+
+        for (let cx = minX; cx <= maxX; cx++) {
+            for (let cy = minY; cy <= maxY; cy++) {
+                const key = cellKey(cx, cy);
+                let cell = this.cells.get(key);
+                if (!cell) {
+                    cell = this.spare.pop() || [];
+                    this.cells.set(key, cell);
+                }
+                cell.push(item);
+            }
+        }
+    }
+
+    // Collects every item whose cells touch the box around (x, y, radius). Each item appears once.
+    query(x: number, y: number, radius: number, out: T[] = []): T[] {
+        const size = this.cellSize;
+        const minX = Math.floor((x - radius) / size);
+        const maxX = Math.floor((x + radius) / size);
+        const minY = Math.floor((y - radius) / size);
+        const maxY = Math.floor((y + radius) / size);
+        const seen = new Set<number>();
+
+        for (let cx = minX; cx <= maxX; cx++) {
+            for (let cy = minY; cy <= maxY; cy++) {
+                const cell = this.cells.get(cellKey(cx, cy));
+                if (!cell) continue;
+                for (let i = 0; i < cell.length; i++) {
+                    const item = cell[i];
+                    if (seen.has(item.id)) continue;
+                    seen.add(item.id);
+                    out.push(item);
+                }
+            }
+        }
+        return out;
+    }
+
+    // Calls `visit` once for every pair of items sharing at least one cell.
+    forEachPair(visit: (a: T, b: T) => void): void {
+        const seen = new Set<string>();
+        this.cells.forEach((cell) => {
+            for (let i = 0; i < cell.length; i++) {
+                for (let j = i + 1; j < cell.length; j++) {
+                    const a = cell[i];
+                    const b = cell[j];
+                    const key = a.id < b.id ? `${a.id}:${b.id}` : `${b.id}:${a.id}`;
+                    if (seen.has(key)) continue;
+                    seen.add(key);
+                    visit(a, b);
+                }
+            }
+        });
+    }
+}
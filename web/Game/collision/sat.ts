@@ -0,0 +1,150 @@
+/**
+ * Narrow-phase tests. Polygons are flat [x0, y0, x1, y1, ...] lists in world space.
+ * The separating-axis tests assume convex polygons; callers split concave ones first.
+ */
+
+const range = [0, 0];
+
+function project(poly: number[], axisX: number, axisY: number, out: number[]): void {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < poly.length; i += 2) {
+        const d = poly[i] * axisX + poly[i + 1] * axisY;
+        if (d < min) min = d;
+        if (d > max) max = d;
+    }
+    out[0] = min;
+    out[1] = max;
+}
+
+// True if some edge normal of `poly` separates it from `other`.
+function hasSeparatingAxis(poly: number[], other: number[]): boolean {
+    const otherRange = [0, 0];
+    for (let i = 0; i < poly.length; i += 2) {
+        const j = (i + 2) % poly.length;
+        const axisX = -(poly[j + 1] - poly[i + 1]);
+        const axisY = poly[j] - poly[i];
+
+        project(poly, axisX, axisY, range);
+        project(other, axisX, axisY, otherRange);
+        if (range[1] < otherRange[0] || otherRange[1] < range[0]) return true;
+    }
+    return false;
+}
+
+export function convexPolygonsOverlap(a: number[], b: number[]): boolean {
+    return !hasSeparatingAxis(a, b) && !hasSeparatingAxis(b, a);
+}
+
+export function convexPolygonOverlapsCircle(poly: number[], cx: number, cy: number, r: number): boolean {
+    // Edge normals of the polygon.
+    for (let i = 0; i < poly.length; i += 2) {
+        const j = (i + 2) % poly.length;
+        let axisX = -(poly[j + 1] - poly[i + 1]);
+        let axisY = poly[j] - poly[i];
+        const length = Math.sqrt(axisX * axisX + axisY * axisY) || 1;
+        axisX /= length;
+        axisY /= length;
+
+        project(poly, axisX, axisY, range);
+        const c = cx * axisX + cy * axisY;
+        if (c + r < range[0] || c - r > range[1]) return false;
+    }
+
+    // Axis from the closest corner to the circle's centre.
+    let closest = 0;
+    let best = Infinity;
+    for (let i = 0; i < poly.length; i += 2) {
+        const dx = poly[i] - cx;
+        const dy = poly[i + 1] - cy;
+        const d = dx * dx + dy * dy;
+        if (d < best) {
+            best = d;
+            closest = i;
+        }
+    }
+    let axisX = poly[closest] - cx;
+    let axisY = poly[closest + 1] - cy;
+    const length = Math.sqrt(axisX * axisX + axisY * axisY);
+    if (length === 0) return true;
+    axisX /= length;
+    axisY /= length;
+
+    project(poly, axisX, axisY, range);
+    const c = cx * axisX + cy * axisY;
+    return !(c + r < range[0] || c - r > range[1]);
+}
+
+export function circlesOverlap(ax: number, ay: number, ar: number, bx: number, by: number, br: number): boolean {
+    const dx = ax - bx;
+    const dy = ay - by;
+    const r = ar + br;
+    return dx * dx + dy * dy <= r * r;
+}
+
+// Even-odd rule, so it also works for concave polygons such as stars.
+export function pointInPolygon(poly: number[], x: number, y: number): boolean {
+    let inside = false;
+    for (let i = 0, j = poly.length - 2; i < poly.length; j = i, i += 2) {
+        const xi = poly[i];
+        const yi = poly[i + 1];
+        const xj = poly[j];
+        const yj = poly[j + 1];
+        if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+function segmentDistanceSquared(px: number, py: number, ax: number, ay: number, bx: number, by: number): number {
+    const abx = bx - ax;
+    const aby = by - ay;
+    const lengthSquared = abx * abx + aby * aby;
+    let t = lengthSquared === 0 ? 0 : ((px - ax) * abx + (py - ay) * aby) / lengthSquared;
+    t = Math.max(0, Math.min(1, t));
+    const dx = ax + abx * t - px;
+    const dy = ay + aby * t - py;
+    return dx * dx + dy * dy;
+}
+
+// Works for any simple polygon: the circle overlaps if its centre is inside or an edge is within reach.
+export function polygonOverlapsCircle(poly: number[], cx: number, cy: number, r: number): boolean {
+    if (pointInPolygon(poly, cx, cy)) return true;
+    const rr = r * r;
+    for (let i = 0; i < poly.length; i += 2) {
+        const j = (i + 2) % poly.length;
+        if (segmentDistanceSquared(cx, cy, poly[i], poly[i + 1], poly[j], poly[j + 1]) <= rr) return true;
+    }
+    return false;
+}
+
+// Splits a polygon that is star-shaped around (cx, cy) into convex triangles for SAT.
+export function fanTriangles(poly: number[], cx: number, cy: number): number[][] {
+    const triangles: number[][] = [];
+    for (let i = 0; i < poly.length; i += 2) {
+        const j = (i + 2) % poly.length;
+        triangles.push([cx, cy, poly[i], poly[i + 1], poly[j], poly[j + 1]]);
+    }
+    return triangles;
+}
+
+// Whether the polygon's corners all turn the same way.
+export function isConvex(poly: number[]): boolean {
+    let sign = 0;
+    const count = poly.length / 2;
+    for (let i = 0; i < count; i++) {
+        const ax = poly[i * 2];
+        const ay = poly[i * 2 + 1];
+        const bx = poly[((i + 1) % count) * 2];
+        const by = poly[((i + 1) % count) * 2 + 1];
+        const cx = poly[((i + 2) % count) * 2];
+        const cy = poly[((i + 2) % count) * 2 + 1];
+        const cross = (bx - ax) * (cy - by) - (by - ay) * (cx - bx);
+        if (cross === 0) continue;
+        const s = cross > 0 ? 1 : -1;
+        if (sign === 0) sign = s;
+        else if (s !== sign) return false;
+    }
+    return true;
+}
@@ -0,0 +1,28 @@
+// Stamped into replays so a recording can be matched to the rules it was played under.
+export const GAME_VERSION = '0.1.0';
+
+// The virtual resolution scenes are designed for. The viewport scales it to whatever screen we get;
+// in fill mode the virtual screen can grow beyond it along one axis, but never shrinks below it.
+export const GAME_WIDTH = 640;
+export const GAME_HEIGHT = 480;
+
+export const BACKGROUND_COLOR = '#1099bb';
+
+// Shown around the virtual screen when its aspect ratio doesn't match the display.
+export const LETTERBOX_COLOR = '#000000';
+
+// The simulation always advances in fixed steps of this length, whatever the display refresh rate.
+export const STEPS_PER_SECOND = 60;
+
+// Upper bound on simulation steps run for a single rendered frame, so a slow frame can't spiral.
+export const MAX_STEPS_PER_FRAME = 5;
+
+// True outside production builds. Vite replaces `process.env.NODE_ENV` in the dev server and in builds,
+// and Node has it anyway; anywhere that leaves `process` undefined counts as development.
+export const IS_DEV = ((): boolean => {
+    try {
+        return process.env.NODE_ENV !== 'production';
+    } catch {
+        return true;
+    }
+})();
@@ -0,0 +1,41 @@
+// Why the player may have stopped paying attention to the game.
+export type FocusLoss = 'hidden' | 'blur' | 'gamepad';
+
+export interface FocusHandlers {
+    lost(reason: FocusLoss): void;
+    // Called when the page is hidden or shown again, e.g. on switching tabs or minimising.
+    visibilityChanged(visible: boolean): void;
+}
+
+// Watches the page for tab switches, window blur and unplugged controllers.
+export class FocusMonitor {
+    constructor(private readonly handlers: FocusHandlers) {
+        document.addEventListener('visibilitychange', this.onVisibilityChange);
+        window.addEventListener('blur', this.onBlur);
+        window.addEventListener('gamepaddisconnected', this.onGamepadDisconnected);
+    }
+
+    get visible(): boolean {
+        return document.visibilityState !== 'hidden';
+    }
+
+    destroy(): void {
+        document.removeEventListener('visibilitychange', this.onVisibilityChange);
+        window.removeEventListener('blur', this.onBlur);
+        window.removeEventListener('gamepaddisconnected', this.onGamepadDisconnected);
+    }
+
+    private onVisibilityChange = (): void => {
+        const visible = this.visible;
+        if (!visible) this.handlers.lost('hidden');
+        this.handlers.visibilityChanged(visible);
+    };
+
+    private onBlur = (): void => {
+        this.handlers.lost('blur');
+    };
+
+    private onGamepadDisconnected = (): void => {
+        this.handlers.lost('gamepad');
+    };
+}
@@ -0,0 +1,144 @@
+import { Application } from 'pixi.js';
+import { AudioManager } from '../audio/AudioManager';
+import { MAX_STEPS_PER_FRAME, STEPS_PER_SECOND } from '../config';
+import { TimeControl } from '../feel/TimeControl';
+import { I18n } from '../i18n/I18n';
+import { applyDocumentLocale, detectLocale } from '../i18n/locale';
+import { GAME_ACTIONS } from '../input/actions';
+import { InputManager } from '../input/InputManager';
+import { GameSettings, SettingsStore } from '../settings/SettingsStore';
+import { applyTextFonts } from '../ui/styles';
+import { FocusLoss, FocusMonitor } from './FocusMonitor';
+import { GameLoop } from './GameLoop';
+import { SceneManager } from './SceneManager';
+import { Viewport } from './Viewport';
+
+export type PauseListener = (paused: boolean) => void;
+
+/**
+ * Ties the pixi application to the fixed-step loop and the scene manager.
+ * Scenes receive the game instance so they can reach shared services from here.
+ */
+export class Game {
+    readonly scenes: SceneManager;
+    readonly loop: GameLoop;
+    readonly input: InputManager;
+    readonly viewport: Viewport;
+    readonly settings = new SettingsStore(this.playerId);
+    readonly audio = new AudioManager(this.settings);
+    // Hit-stop and slow motion for the whole game.
+    readonly time = new TimeControl(this.settings);
+    readonly i18n = new I18n(detectLocale(this.settings.current.language));
+
+    private readonly focus: FocusMonitor;
+    private readonly pauseReasons = new Set<string>();
+    private readonly pauseListeners = new Set<PauseListener>();
+    private started = false;
+
+    // `playerId` is the signed-in player, whose settings are loaded; null plays with the browser's.
+    constructor(readonly app: Application, readonly playerId: string | null = null) {
+        this.viewport = new Viewport(app, this.settings.current.scaleMode);
+        this.scenes = new SceneManager(this, this.viewport.root);
+        this.input = new InputManager(app.canvas, this.viewport);
+        this.viewport.onResize((size) => this.scenes.layout(size.width, size.height));
+        this.applyKeyBindings(this.settings.current);
+        this.applyLocale();
+        this.settings.subscribe((settings) => {
+            this.viewport.setMode(settings.scaleMode);
+            this.applyKeyBindings(settings);
+            this.i18n.setLocale(detectLocale(settings.language));
+        });
+        // Switching language redoes every scene's text in place; nothing has to restart.
+        this.i18n.onChange(() => {
+            this.applyLocale();
+            this.scenes.localize();
+        });
+        this.focus = new FocusMonitor({
+            lost: (reason) => this.onFocusLost(reason),
+            visibilityChanged: (visible) => this.onVisibilityChanged(visible),
+        });
+        this.onPauseChange((paused) => this.audio.setPaused(paused));
+        this.loop = new GameLoop(
+            app.ticker,
+            (dt, tick) => this.step(dt, tick),
+            (alpha) => this.scenes.render(alpha),
+            { stepsPerSecond: STEPS_PER_SECOND, maxStepsPerFrame: MAX_STEPS_PER_FRAME, clock: this.time },
+        );
+    }
+
+    // True while anything holds play frozen: the pause menu, a hidden tab, and so on.
+    get paused(): boolean {
+        return this.pauseReasons.size > 0;
+    }
+
+    start(scene: string, data?: unknown): void {
+        this.started = true;
+        this.scenes.change(scene, data);
+        if (this.focus.visible) this.loop.start();
+    }
+
+    /**
+     * Marks play as frozen, or no longer frozen, for `reason`. Play stays paused until every reason is
+     * cleared. Services that run on wall-clock time, such as audio, follow this through `onPauseChange`.
+     */
+    setPaused(reason: string, paused: boolean): void {
+        const was = this.paused;
+        if (paused) this.pauseReasons.add(reason);
+        else this.pauseReasons.delete(reason);
+        if (this.paused !== was) this.pauseListeners.forEach((listener) => listener(this.paused));
+    }
+
+    // Calls `listener` whenever `paused` flips. Returns a function that unsubscribes it.
+    onPauseChange(listener: PauseListener): () => void {
+        this.pauseListeners.add(listener);
+        return () => {
+            this.pauseListeners.delete(listener);
+        };
+    }
+
+    // Stops the loop and tears down every scene and input listener. The pixi application is left to its owner.
+    destroy(): void {
+        this.started = false;
+        this.loop.stop();
+        this.scenes.clear();
+        this.input.destroy();
+        this.focus.destroy();
+        this.viewport.destroy();
+        this.pauseListeners.clear();
+        this.audio.destroy();
+    }
+
+    private step(dt: number, tick: number): void {
+        this.input.capture(tick, dt);
+        this.scenes.update(dt);
+    }
+
+    // Starts from the default bindings so keys the player has since reset come back.
+    private applyKeyBindings(settings: GameSettings): void {
+        this.input.resetBindings();
+        GAME_ACTIONS.forEach((action) => {
+            const keys = settings.keyBindings[action];
+            if (Array.isArray(keys) && keys.every((key) => typeof key === 'string')) this.input.rebind(action, 'keys', keys);
+        });
+    }
+
+    private applyLocale(): void {
+        applyDocumentLocale(this.i18n.locale);
+        applyTextFonts(this.i18n.fonts, this.viewport.root);
+    }
+
+    private onFocusLost(reason: FocusLoss): void {
+        if (reason === 'blur' && !this.settings.current.pauseOnBlur) return;
+        const scene = this.scenes.current;
+        if (scene) scene.focusLost(reason);
+    }
+
+    // Nothing is drawn while hidden, so the loop stops outright rather than stepping into the void.
+    private onVisibilityChanged(visible: boolean): void {
+        this.setPaused('hidden', !visible);
+        this.audio.setSuspended(!visible);
+        if (!this.started) return;
+        if (visible) this.loop.start();
+        else this.loop.stop();
+    }
+}
@@ -0,0 +1,95 @@
+import { Ticker } from 'pixi.js';
+
+export type StepCallback = (dt: number, tick: number) => void;
+export type RenderCallback = (alpha: number) => void;
+
+// Turns the wall-clock milliseconds of a frame into the milliseconds the game should advance by.
+export interface LoopClock {
+    advance(elapsedMs: number): number;
+}
+
+export interface GameLoopOptions {
+    stepsPerSecond: number;
+    maxStepsPerFrame: number;
+    // Slows or stops the game without touching the step size, e.g. for hit-stop and slow motion.
+    clock?: LoopClock;
+}
+
+/**
+ * Runs the simulation at a fixed timestep, independent of how often the ticker renders.
+ *
+ * Each rendered frame adds its elapsed time to an accumulator and runs as many whole steps as fit.
+ * The leftover fraction of a step is passed to `render` as `alpha` so views can interpolate
+ * between the previous and current simulation state.
+ */
+export class GameLoop {
+    readonly stepMs: number;
+    readonly maxStepsPerFrame: number;
+
+    private readonly clock: LoopClock | undefined;
+    private accumulator = 0;
+    private tick = 0;
+    private running = false;
+    private resumed = false;
+
+    constructor(
+        private readonly ticker: Ticker,
+        private readonly step: StepCallback,
+        private readonly render: RenderCallback,
+        options: GameLoopOptions,
+    ) {
+        this.stepMs = 1000 / options.stepsPerSecond;
+        this.maxStepsPerFrame = options.maxStepsPerFrame;
+        this.clock = options.clock;
+    }
+
+    get currentTick(): number {
+        return this.tick;
+    }
+
+    get isRunning(): boolean {
+        return this.running;
+    }
+
+    start(): void {
+        if (this.running) return;
+        this.running = true;
+        this.resumed = true;
+        this.accumulator = 0;
+        this.ticker.add(this.onTick);
+    }
+
+    stop(): void {
+        if (!this.running) return;
+        this.running = false;
+        this.ticker.remove(this.onTick);
+    }
+
+    // Feeds `elapsedMs` of wall-clock time into the loop, running whole steps and then rendering once.
+    advance(elapsedMs: number): void {
+        this.accumulator += elapsedMs;
+
+        let steps = 0;
+        while (this.accumulator >= this.stepMs && steps < this.maxStepsPerFrame) {
+            this.step(this.stepMs / 1000, this.tick);
+            this.tick++;
+            this.accumulator -= this.stepMs;
+            steps++;
+        }
+
+        // We fell too far behind to catch up; drop the backlog rather than stall every later frame.
+        if (steps === this.maxStepsPerFrame && this.accumulator >= this.stepMs) {
+            this.accumulator = 0;
+        }
+
+        this.render(this.accumulator / this.stepMs);
+    }
+
+    private onTick = (ticker: Ticker): void => {
+        // The first frame after (re)starting can span all the time we were stopped. Simulating it would
+        // burst through several steps at once, so that frame only renders.
+        const elapsed = this.resumed ? 0 : ticker.deltaMS;
+        this.resumed = false;
+        this.advance(this.clock ? this.clock.advance(elapsed) : elapsed);
+    };
+}
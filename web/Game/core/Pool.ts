@@ -0,0 +1,112 @@
+import { IS_DEV } from '../config';
+
+export interface PoolOptions<T> {
+    // Shown in diagnostics.
+    name: string;
+    create(): T;
+    // Returns a released object to a clean state, so idle objects hold on to nothing.
+    reset?(item: T): void;
+    // Frees an object the pool won't keep.
+    dispose?(item: T): void;
+    // Idle objects kept for reuse; anything released beyond this is disposed.
+    maxFree?: number;
+    // Dev builds warn once if more than this many objects are out at the same time.
+    leakWarning?: number;
+}
+
+export interface PoolStats {
+    name: string;
+    free: number;
+    inUse: number;
+    created: number;
+}
+
+const pools: Pool<unknown>[] = [];
+
+// Every pool created so far, for inspecting from the console.
+export function poolStats(): PoolStats[] {
+    return pools.map((pool) => pool.stats);
+}
+
+/**
+ * Keeps released objects around so hot paths can reuse them instead of allocating, which matters for
+ * pixi display objects that are expensive to build and to collect.
+ *
+ * Dev builds also track which objects are out, to catch double releases and objects that are never
+ * given back.
+ */
+export class Pool<T> {
+    private readonly free: T[] = [];
+    // Only tracked in dev builds.
+    private readonly out = new Set<T>();
+    private inUse = 0;
+    private created = 0;
+    private warned = false;
+
+    constructor(private readonly options: PoolOptions<T>) {
+        pools.push(this as Pool<unknown>);
+    }
+
+    get stats(): PoolStats {
+        return { name: this.options.name, free: this.free.length, inUse: this.inUse, created: this.created };
+    }
+
+    acquire(): T {
+        const item = this.free.length > 0 ? (this.free.pop() as T) : this.make();
+        this.inUse++;
+
+        if (IS_DEV) {
+            this.out.add(item);
+            const limit = this.options.leakWarning;
+            if (limit !== undefined && this.inUse > limit && !this.warned) {
+                this.warned = true;
+                console.warn(`Pool "${this.options.name}": objects in use at once: ${this.inUse}; are some never released?`);
+            }
+        }
+        return item;
+    }
+
+    release(item: T): void {
+        if (IS_DEV) {
+            if (!this.out.has(item)) {
+                console.warn(`Pool "${this.options.name}": released an object it didn't hand out, or released it twice`);
+                return;
+            }
+            this.out.delete(item);
+        }
+        this.inUse--;
+
+        if (this.options.reset) this.options.reset(item);
+        const maxFree = this.options.maxFree;
+        if (maxFree !== undefined && this.free.length >= maxFree) {
+            if (this.options.dispose) this.options.dispose(item);
+        } else {
+            this.free.push(item);
+        }
+    }
+
+    // Builds objects up front until at least `count` are idle, so the first busy frames don't allocate.
+    prewarm(count: number): void {
+        const target = this.options.maxFree !== undefined ? Math.min(count, this.options.maxFree) : count;
+        while (this.free.length < target) this.free.push(this.make());
+    }
+
+    // Dev builds warn if objects are still out, e.g. once their owner has released everything it had.
+    checkLeaks(): void {
+        if (IS_DEV && this.inUse > 0) {
+            console.warn(`Pool "${this.options.name}": objects never released: ${this.inUse}`);
+        }
+    }
+
+    // Disposes every idle object.
+    drain(): void {
+        const dispose = this.options.dispose;
+        if (dispose) this.free.forEach((item) => dispose(item));
+        this.free.length = 0;
+    }
+
+    private make(): T {
+        this.created++;
+        return this.options.create();
+    }
+}
@@ -0,0 +1,45 @@
+import { Container } from 'pixi.js';
+import type { FocusLoss } from './FocusMonitor';
+import type { Game } from './Game';
+
+/**
+ * Base class for everything that can be shown by the scene manager.
+ *
+ * A scene owns a container that the manager attaches to the stage while the scene is active.
+ * Hooks are no-ops by default so subclasses only override what they need.
+ */
+export abstract class Scene {
+    readonly container = new Container();
+
+    constructor(protected readonly game: Game) {}
+
+    // Called once, after the container has been added to the stage.
+    enter(_data?: unknown): void {}
+
+    // Puts the scene's text in the current language. Called right after `enter`, before `layout`, and
+    // again for every scene in the stack when the player switches language.
+    localize(): void {}
+
+    // Positions the scene's content for a virtual screen of `width` x `height`. Called right after
+    // `enter` and again whenever the viewport changes size, so scenes never assume a fixed resolution.
+    layout(_width: number, _height: number): void {}
+
+    // Called once, before the container is removed from the stage and destroyed.
+    exit(): void {}
+
+    // Called when another scene is pushed on top of this one.
+    suspend(): void {}
+
+    // Called when the scene above this one is popped.
+    resume(): void {}
+
+    // Called on the top scene when the player may have looked away: the tab was hidden, the window
+    // lost focus or a controller was unplugged. Scenes with something to lose should pause here.
+    focusLost(_reason: FocusLoss): void {}
+
+    // Advances the scene by one fixed simulation step of `dt` seconds. Only the top scene is updated.
+    update(_dt: number): void {}
+
+    // Draws the scene, `alpha` being how far we are between the last step and the next one.
+    render(_alpha: number): void {}
+}
@@ -0,0 +1,106 @@
+import { Container } from 'pixi.js';
+import type { Game } from './Game';
+import type { Scene } from './Scene';
+
+export type SceneFactory = (game: Game) => Scene;
+
+/**
+ * Keeps a stack of scenes. The top scene receives updates; every scene in the stack is rendered,
+ * so overlays such as the pause screen draw on top of the scene they cover.
+ */
+export class SceneManager {
+    private readonly factories = new Map<string, SceneFactory>();
+    private readonly stack: Scene[] = [];
+    private readonly names: string[] = [];
+
+    constructor(private readonly game: Game, private readonly root: Container) {}
+
+    get current(): Scene | undefined {
+        return this.stack[this.stack.length - 1];
+    }
+
+    get currentName(): string | undefined {
+        return this.names[this.names.length - 1];
+    }
+
+    register(name: string, factory: SceneFactory): this {
+        this.factories.set(name, factory);
+        return this;
+    }
+
+    has(name: string): boolean {
+        return this.names.indexOf(name) !== -1;
+    }
+
+    // Replaces the whole stack with a fresh instance of `name`.
+    change(name: string, data?: unknown): void {
+        this.clear();
+        this.enter(name, data);
+    }
+
+    // Exits every scene, leaving the stack empty.
+    clear(): void {
+        while (this.stack.length > 0) {
+            this.exitTop();
+        }
+    }
+
+    // Shows `name` on top of the current scene, which is suspended until `pop` is called.
+    push(name: string, data?: unknown): void {
+        const below = this.current;
+        if (below) below.suspend();
+        this.enter(name, data);
+    }
+
+    pop(): void {
+        if (this.stack.length === 0) return;
+        this.exitTop();
+        const below = this.current;
+        if (below) below.resume();
+    }
+
+    // Lays every scene in the stack out again, e.g. after the viewport was resized.
+    layout(width: number, height: number): void {
+        this.stack.forEach((scene) => scene.layout(width, height));
+    }
+
+    // Shows every scene in the stack in the current language, then lays them out again around the new text.
+    localize(): void {
+        this.stack.forEach((scene) => scene.localize());
+        this.layout(this.game.viewport.width, this.game.viewport.height);
+    }
+
+    update(dt: number): void {
+        const top = this.current;
+        if (top) top.update(dt);
+    }
+
+    render(alpha: number): void {
+        for (let i = 0; i < this.stack.length; i++) {
+            this.stack[i].render(alpha);
+        }
+    }
+
+    private enter(name: string, data?: unknown): void {
+        const factory = this.factories.get(name);
+        if (!factory) throw new Error(`Unknown scene "${name}"`);
+
+        const scene = factory(this.game);
+        this.stack.push(scene);
+        this.names.push(name);
+        this.root.addChild(scene.container);
+        scene.enter(data);
+        scene.localize();
+        scene.layout(this.game.viewport.width, this.game.viewport.height);
+    }
+
+    private exitTop(): void {
+        const scene = this.stack.pop();
+        this.names.pop();
+        if (!scene) return;
+
+        scene.exit();
+        this.root.removeChild(scene.container);
+        scene.container.destroy({ children: true });
+    }
+}
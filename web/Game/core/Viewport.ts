@@ -0,0 +1,141 @@
+import { Application, Container, Graphics } from 'pixi.js';
+import { BACKGROUND_COLOR, GAME_HEIGHT, GAME_WIDTH } from '../config';
+
+/**
+ * letterbox: the virtual screen keeps its size and is centred, with bars filling the rest of the canvas.
+ * fit: the canvas itself shrinks to the virtual screen's aspect ratio.
+ * fill: the virtual screen grows along one axis so it covers the whole canvas, no bars.
+ */
+export type ScaleMode = 'letterbox' | 'fit' | 'fill';
+
+export const SCALE_MODES: ScaleMode[] = ['letterbox', 'fit', 'fill'];
+
+export type Orientation = 'landscape' | 'portrait';
+
+export interface ViewportSize {
+    // Virtual screen size, what scenes lay themselves out in.
+    width: number;
+    height: number;
+    // CSS pixels per virtual pixel.
+    scale: number;
+    orientation: Orientation;
+}
+
+export type ResizeListener = (size: ViewportSize) => void;
+
+/**
+ * Maps the virtual resolution onto the canvas's space on the page.
+ *
+ * The stage is never scaled. Instead the renderer's resolution is set to device pixels per virtual
+ * pixel, so text and graphics are rasterised at the display's full density and stay crisp at any size.
+ * Scenes live under `root` and only ever see virtual coordinates.
+ */
+export class Viewport {
+    // Parent of every scene. Offset so (0, 0) is the virtual screen's top-left corner.
+    readonly root = new Container();
+
+    private readonly background = new Graphics();
+    private readonly listeners = new Set<ResizeListener>();
+    private readonly observer: ResizeObserver | null = null;
+    private size: ViewportSize = { width: GAME_WIDTH, height: GAME_HEIGHT, scale: 1, orientation: 'landscape' };
+    // The renderer's size in virtual pixels, including any letterbox bars.
+    private viewWidth = GAME_WIDTH;
+    private viewHeight = GAME_HEIGHT;
+
+    constructor(private readonly app: Application, private mode: ScaleMode = 'letterbox') {
+        app.stage.addChild(this.background, this.root);
+
+        window.addEventListener('resize', this.refresh);
+        window.addEventListener('orientationchange', this.refresh);
+        const parent = app.canvas.parentElement;
+        if (parent && parent !== document.body && typeof ResizeObserver !== 'undefined') {
+            this.observer = new ResizeObserver(this.refresh);
+            this.observer.observe(parent);
+        }
+        this.refresh();
+    }
+
+    get width(): number {
+        return this.size.width;
+    }
+
+    get height(): number {
+        return this.size.height;
+    }
+
+    get current(): ViewportSize {
+        return this.size;
+    }
+
+    setMode(mode: ScaleMode): void {
+        if (mode === this.mode) return;
+        this.mode = mode;
+        this.refresh();
+    }
+
+    // Calls `listener` whenever the virtual screen changes size. Returns a function that unsubscribes it.
+    onResize(listener: ResizeListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    // Converts a point in client (CSS) coordinates, e.g. from a pointer event, into virtual coordinates.
+    toVirtual(clientX: number, clientY: number): { x: number; y: number } {
+        const rect = this.app.canvas.getBoundingClientRect();
+        const width = rect.width || 1;
+        const height = rect.height || 1;
+        return {
+            x: ((clientX - rect.left) / width) * this.viewWidth - this.root.x,
+            y: ((clientY - rect.top) / height) * this.viewHeight - this.root.y,
+        };
+    }
+
+    // Re-measures the space available to the canvas. Runs on its own on resize and rotation.
+    refresh = (): void => {
+        const canvas = this.app.canvas;
+        const parent = canvas.parentElement;
+        const onPage = parent && parent !== document.body;
+        const availableWidth = (onPage ? parent!.clientWidth : window.innerWidth) || GAME_WIDTH;
+        const availableHeight = (onPage ? parent!.clientHeight : window.innerHeight) || GAME_HEIGHT;
+
+        const scale = Math.min(availableWidth / GAME_WIDTH, availableHeight / GAME_HEIGHT);
+        let cssWidth = availableWidth;
+        let cssHeight = availableHeight;
+        let width = GAME_WIDTH;
+        let height = GAME_HEIGHT;
+        if (this.mode === 'fit') {
+            cssWidth = GAME_WIDTH * scale;
+            cssHeight = GAME_HEIGHT * scale;
+        } else if (this.mode === 'fill') {
+            width = availableWidth / scale;
+            height = availableHeight / scale;
+        }
+
+        this.viewWidth = cssWidth / scale;
+        this.viewHeight = cssHeight / scale;
+        this.root.position.set((this.viewWidth - width) / 2, (this.viewHeight - height) / 2);
+        this.background.clear().rect(this.root.x, this.root.y, width, height).fill(BACKGROUND_COLOR);
+
+        const density = (window.devicePixelRatio || 1) * scale;
+        this.app.renderer.resize(this.viewWidth, this.viewHeight, density);
+        canvas.style.width = `${cssWidth}px`;
+        canvas.style.height = `${cssHeight}px`;
+        canvas.style.marginLeft = `${(availableWidth - cssWidth) / 2}px`;
+        canvas.style.marginTop = `${(availableHeight - cssHeight) / 2}px`;
+
+        const previous = this.size;
+        this.size = { width, height, scale, orientation: availableWidth >= availableHeight ? 'landscape' : 'portrait' };
+        if (previous.width !== width || previous.height !== height || previous.scale !== scale || previous.orientation !== this.size.orientation) {
+            this.listeners.forEach((listener) => listener(this.size));
+        }
+    };
+
+    destroy(): void {
+        window.removeEventListener('resize', this.refresh);
+        window.removeEventListener('orientationchange', this.refresh);
+        if (this.observer) this.observer.disconnect();
+        this.listeners.clear();
+    }
+}
@@ -0,0 +1,92 @@
+import { isRecord } from './readers';
+
+export interface ValidationIssue {
+    // Where the problem is, e.g. "waves[2].spawns[0].kind".
+    path: string;
+    message: string;
+}
+
+export class ValidationError extends Error {
+    constructor(readonly subject: string, readonly issues: ValidationIssue[]) {
+        super(`Invalid ${subject}:\n${issues.map((issue) => `  ${issue.path}: ${issue.message}`).join('\n')}`);
+        this.name = 'ValidationError';
+        Object.setPrototypeOf(this, ValidationError.prototype);
+    }
+}
+
+export interface NumberRule {
+    min?: number;
+    max?: number;
+    integer?: boolean;
+}
+
+/**
+ * Walks a JSON document and records every problem it finds, each with a precise path, instead of
+ * stopping at the first. Readers return a fallback on failure so checking can carry on.
+ */
+export class SchemaChecker {
+    readonly issues: ValidationIssue[] = [];
+
+    get ok(): boolean {
+        return this.issues.length === 0;
+    }
+
+    fail(path: string, message: string): void {
+        this.issues.push({ path, message });
+    }
+
+    // Throws a `ValidationError` listing every issue, if there were any.
+    assert(subject: string): void {
+        if (!this.ok) throw new ValidationError(subject, this.issues);
+    }
+
+    object(value: unknown, path: string): Record<string, unknown> {
+        if (isRecord(value)) return value;
+        this.fail(path, 'must be an object');
+        return {};
+    }
+
+    number(raw: Record<string, unknown>, key: string, path: string, rule: NumberRule = {}, fallback?: number): number {
+        const value = raw[key];
+        const at = `${path}.${key}`;
+        if (value === undefined && fallback !== undefined) return fallback;
+        if (typeof value !== 'number' || !isFinite(value)) {
+            this.fail(at, value === undefined ? 'is required' : 'must be a number');
+            return fallback !== undefined ? fallback : 0;
+        }
+        if (rule.integer && Math.floor(value) !== value) this.fail(at, 'must be a whole number');
+        if (rule.min !== undefined && value < rule.min) this.fail(at, `must be at least ${rule.min}`);
+        if (rule.max !== undefined && value > rule.max) this.fail(at, `must be at most ${rule.max}`);
+        return value;
+    }
+
+    string(raw: Record<string, unknown>, key: string, path: string, fallback?: string): string {
+        const value = raw[key];
+        if (value === undefined && fallback !== undefined) return fallback;
+        if (typeof value !== 'string') {
+            this.fail(`${path}.${key}`, value === undefined ? 'is required' : 'must be a string');
+            return fallback !== undefined ? fallback : '';
+        }
+        return value;
+    }
+
+    // Returns undefined when the value isn't one of `options`, so callers can skip checks that depend on it.
+    oneOf<T extends string>(raw: Record<string, unknown>, key: string, path: string, options: T[]): T | undefined {
+        const value = raw[key];
+        if (options.indexOf(value as T) === -1) {
+            this.fail(`${path}.${key}`, `must be one of ${options.join(', ')}`);
+            return undefined;
+        }
+        return value as T;
+    }
+
+    array(raw: Record<string, unknown>, key: string, path: string, optional = false): unknown[] {
+        const value = raw[key];
+        if (value === undefined && optional) return [];
+        if (!Array.isArray(value)) {
+            this.fail(`${path}.${key}`, value === undefined ? 'is required' : 'must be an array');
+            return [];
+        }
+        return value;
+    }
+}
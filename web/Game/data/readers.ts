@@ -0,0 +1,39 @@
+// Small helpers for reading designer-authored JSON. Each throws with the path of the offending value.
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function readNumber(raw: Record<string, unknown>, key: string, fallback: number, path: string): number {
+    const value = raw[key];
+    if (value === undefined) return fallback;
+    if (typeof value !== 'number' || !isFinite(value)) {
+        throw new Error(`${path}.${key} must be a number`);
+    }
+    return value;
+}
+
+export function readString(raw: Record<string, unknown>, key: string, fallback: string, path: string): string {
+    const value = raw[key];
+    if (value === undefined) return fallback;
+    if (typeof value !== 'string') throw new Error(`${path}.${key} must be a string`);
+    return value;
+}
+
+export function readRange(raw: Record<string, unknown>, key: string, fallback: [number, number], path: string): [number, number] {
+    const value = raw[key];
+    if (value === undefined) return fallback;
+    if (!Array.isArray(value) || value.length !== 2 || typeof value[0] !== 'number' || typeof value[1] !== 'number') {
+        throw new Error(`${path}.${key} must be a [min, max] pair of numbers`);
+    }
+    return [value[0], value[1]];
+}
+
+export function readNumberList(raw: Record<string, unknown>, key: string, fallback: number[], path: string): number[] {
+    const value = raw[key];
+    if (value === undefined) return fallback;
+    if (!Array.isArray(value) || value.length === 0 || value.some((n) => typeof n !== 'number')) {
+        throw new Error(`${path}.${key} must be a non-empty array of numbers`);
+    }
+    return value as number[];
+}
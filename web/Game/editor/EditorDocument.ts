@@ -0,0 +1,186 @@
+import { SchemaChecker, ValidationIssue } from '../data/SchemaChecker';
+import { CURRENT_LEVEL_VERSION, Level, LevelSpawn, WinCondition } from '../levels/Level';
+import { migrateLevel } from '../levels/migrations';
+import { validateLevel } from '../levels/validateLevel';
+import { shapeKinds } from '../shapes/ShapeKindRegistry';
+
+export interface EditorState {
+    level: Level;
+    // The wave new shapes are placed into.
+    waveIndex: number;
+    // The shape kind placed by clicking the board.
+    kind: string;
+    gridSize: number;
+    snap: boolean;
+}
+
+export type EditorListener = (state: EditorState) => void;
+
+export function createBlankLevel(): Level {
+    return {
+        version: CURRENT_LEVEL_VERSION,
+        id: 'untitled',
+        name: 'Untitled',
+        board: { width: 640, height: 480, background: '#1099bb' },
+        timeLimit: 60,
+        kinds: [],
+        waves: [{ at: 0, spawns: [] }],
+        win: [{ type: 'clear' }],
+        lose: [{ type: 'timeUp' }],
+    };
+}
+
+function cloneLevel(level: Level): Level {
+    return JSON.parse(JSON.stringify(level));
+}
+
+/**
+ * The level being edited, shared by the pixi editor scene and the React panel around it.
+ *
+ * Every change replaces the state object, so React can compare snapshots by reference.
+ * The level is always kept in the game's own level format; `toJSON` is exactly what the game loads.
+ */
+export class EditorDocument {
+    private state: EditorState;
+    private readonly listeners: EditorListener[] = [];
+
+    constructor(level: Level = createBlankLevel()) {
+        this.state = { level: cloneLevel(level), waveIndex: 0, kind: shapeKinds.all()[0].id, gridSize: 32, snap: true };
+    }
+
+    get snapshot(): EditorState {
+        return this.state;
+    }
+
+    subscribe(listener: EditorListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            const index = this.listeners.indexOf(listener);
+            if (index !== -1) this.listeners.splice(index, 1);
+        };
+    }
+
+    // Changes editor settings that aren't part of the level.
+    configure(patch: Partial<Omit<EditorState, 'level'>>): void {
+        this.set({ ...this.state, ...patch });
+    }
+
+    // Applies `change` to a copy of the level.
+    edit(change: (level: Level) => void): void {
+        const level = cloneLevel(this.state.level);
+        change(level);
+        this.set({ ...this.state, level, waveIndex: Math.min(this.state.waveIndex, Math.max(0, level.waves.length - 1)) });
+    }
+
+    snapPoint(x: number, y: number): { x: number; y: number } {
+        if (!this.state.snap) return { x: Math.round(x), y: Math.round(y) };
+        const size = this.state.gridSize;
+        return { x: Math.round(x / size) * size, y: Math.round(y / size) * size };
+    }
+
+    // Pins a shape of the selected kind at (x, y) in the selected wave.
+    placeShape(x: number, y: number): void {
+        const point = this.snapPoint(x, y);
+        const { board } = this.state.level;
+        if (point.x < 0 || point.y < 0 || point.x > board.width || point.y > board.height) return;
+
+        this.edit((level) => {
+            const wave = level.waves[this.state.waveIndex];
+            if (!wave) return;
+            wave.spawns.push({ kinds: [this.state.kind], count: 1, interval: 0, x: point.x, y: point.y });
+        });
+    }
+
+    // Removes the pinned shape in the selected wave closest to (x, y), within `reach` px.
+    removeShapeAt(x: number, y: number, reach: number): void {
+        const wave = this.state.level.waves[this.state.waveIndex];
+        if (!wave) return;
+
+        let closest = -1;
+        let best = reach * reach;
+        wave.spawns.forEach((spawn, index) => {
+            if (spawn.x === undefined || spawn.y === undefined) return;
+            const d = (spawn.x - x) * (spawn.x - x) + (spawn.y - y) * (spawn.y - y);
+            if (d <= best) {
+                best = d;
+                closest = index;
+            }
+        });
+        if (closest === -1) return;
+
+        this.edit((level) => level.waves[this.state.waveIndex].spawns.splice(closest, 1));
+    }
+
+    // Adds a batch of randomly placed shapes to the selected wave.
+    addBatch(batch: LevelSpawn): void {
+        this.edit((level) => {
+            const wave = level.waves[this.state.waveIndex];
+            if (wave) wave.spawns.push({ kinds: batch.kinds.slice(), count: batch.count, interval: batch.interval });
+        });
+    }
+
+    addWave(at: number): void {
+        let selected = this.state.waveIndex;
+        this.edit((level) => {
+            const wave = { at: Math.max(0, at), spawns: [] };
+            level.waves.push(wave);
+            level.waves.sort((a, b) => a.at - b.at);
+            selected = level.waves.indexOf(wave);
+        });
+        this.configure({ waveIndex: selected });
+    }
+
+    removeWave(index: number): void {
+        this.edit((level) => level.waves.splice(index, 1));
+    }
+
+    // Moves a wave on the timeline, keeping waves in time order and the moved one selected.
+    setWaveTime(index: number, at: number): void {
+        let selected = this.state.waveIndex;
+        this.edit((level) => {
+            const wave = level.waves[index];
+            if (!wave) return;
+            wave.at = Math.max(0, at);
+            level.waves.sort((a, b) => a.at - b.at);
+            selected = level.waves.indexOf(wave);
+        });
+        this.configure({ waveIndex: selected });
+    }
+
+    setWinConditions(win: WinCondition[]): void {
+        this.edit((level) => (level.win = win.map((condition) => ({ ...condition }))));
+    }
+
+    // Every problem the game would reject the level for. Empty means it is ready to play or publish.
+    validate(): ValidationIssue[] {
+        const check = new SchemaChecker();
+        validateLevel(this.state.level, shapeKinds, check);
+        return check.issues;
+    }
+
+    toJSON(): string {
+        return JSON.stringify(this.state.level, null, 4);
+    }
+
+    // Replaces the level with a JSON document, migrating older versions. Leaves the level untouched on failure.
+    importJSON(text: string): ValidationIssue[] {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(text);
+        } catch (error) {
+            return [{ path: 'json', message: (error as Error).message }];
+        }
+
+        const check = new SchemaChecker();
+        const level = validateLevel(migrateLevel(raw), shapeKinds, check);
+        if (!check.ok) return check.issues;
+
+        this.set({ ...this.state, level, waveIndex: 0 });
+        return [];
+    }
+
+    private set(state: EditorState): void {
+        this.state = state;
+        this.listeners.slice().forEach((listener) => listener(state));
+    }
+}
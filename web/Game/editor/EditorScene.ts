@@ -0,0 +1,136 @@
+import { Container, Graphics, Text } from 'pixi.js';
+import type { Game } from '../core/Game';
+import { Scene } from '../core/Scene';
+import { triggersOf } from '../input/InputSnapshot';
+import { Rng } from '../random/Rng';
+import { buildOutline } from '../shapes/geometry';
+import { Shape } from '../shapes/Shape';
+import { shapeKinds } from '../shapes/ShapeKindRegistry';
+import { drawShape } from '../shapes/ShapeView';
+import { fitInto, toLocalPoint } from '../ui/layout';
+import { createBodyStyle } from '../ui/styles';
+import type { EditorDocument, EditorState } from './EditorDocument';
+
+// How close a right-click must be to a placed shape to remove it, in board px.
+const REMOVE_REACH = 24;
+
+// Shapes from other waves are drawn faintly so the selected wave stands out.
+const OTHER_WAVE_ALPHA = 0.25;
+
+/**
+ * Shows the level being edited: the board, a snapping grid and every pinned shape.
+ * Clicking places the selected kind in the selected wave; right-clicking removes one.
+ */
+export class EditorScene extends Scene {
+    private readonly board = new Container();
+    private readonly background = new Graphics();
+    private readonly grid = new Graphics();
+    private readonly placed = new Container();
+    private readonly ghost = new Graphics();
+    private readonly info = new Text({ text: '', style: createBodyStyle(16) });
+    private unsubscribe: (() => void) | null = null;
+    private dirty = true;
+    private ghostKind = '';
+    private viewWidth = 0;
+    private viewHeight = 0;
+
+    constructor(game: Game, private readonly document: EditorDocument) {
+        super(game);
+    }
+
+    enter(): void {
+        this.ghost.alpha = 0.5;
+        this.board.addChild(this.background, this.grid, this.placed, this.ghost);
+        this.container.addChild(this.board, this.info);
+        this.unsubscribe = this.document.subscribe(() => (this.dirty = true));
+    }
+
+    exit(): void {
+        if (this.unsubscribe) this.unsubscribe();
+    }
+
+    layout(width: number, height: number): void {
+        this.viewWidth = width;
+        this.viewHeight = height;
+        this.info.position.set(8, height - 28);
+        this.dirty = true;
+    }
+
+    update(): void {
+        const input = this.game.input.current;
+
+        triggersOf(input, 'pop').forEach((trigger) => {
+            const point = toLocalPoint(this.board, trigger.x, trigger.y);
+            this.document.placeShape(point.x, point.y);
+        });
+        triggersOf(input, 'powerUp').forEach((trigger) => {
+            const point = toLocalPoint(this.board, trigger.x, trigger.y);
+            this.document.removeShapeAt(point.x, point.y, REMOVE_REACH);
+        });
+    }
+
+    render(): void {
+        const state = this.document.snapshot;
+        if (this.dirty) {
+            this.dirty = false;
+            this.redraw(state);
+        }
+
+        const input = this.game.input.current;
+        const local = toLocalPoint(this.board, input.aimX, input.aimY);
+        const snapped = this.document.snapPoint(local.x, local.y);
+        this.ghost.position.set(snapped.x, snapped.y);
+    }
+
+    private redraw(state: EditorState): void {
+        const { board, waves } = state.level;
+        fitInto(this.board, board.width, board.height, this.viewWidth, this.viewHeight);
+
+        this.background.clear().rect(0, 0, board.width, board.height).fill(board.background);
+
+        this.grid.clear();
+        if (state.snap) {
+            for (let x = 0; x <= board.width; x += state.gridSize) this.grid.moveTo(x, 0).lineTo(x, board.height);
+            for (let y = 0; y <= board.height; y += state.gridSize) this.grid.moveTo(0, y).lineTo(board.width, y);
+            this.grid.stroke({ color: 0xffffff, width: 1, alpha: 0.15 });
+        }
+
+        this.placed.removeChildren().forEach((child) => child.destroy());
+        waves.forEach((wave, index) => {
+            wave.spawns.forEach((spawn) => {
+                if (spawn.x === undefined || spawn.y === undefined) return;
+                const preview = this.drawPreview(spawn.kinds[0], spawn.x, spawn.y);
+                preview.alpha = index === state.waveIndex ? 1 : OTHER_WAVE_ALPHA;
+                this.placed.addChild(preview);
+            });
+        });
+
+        if (this.ghostKind !== state.kind) {
+            this.ghostKind = state.kind;
+            this.ghost.clear();
+            this.drawPreview(state.kind, 0, 0, this.ghost);
+        }
+
+        this.showInfo(state);
+    }
+
+    localize(): void {
+        this.showInfo(this.document.snapshot);
+    }
+
+    private showInfo(state: EditorState): void {
+        const wave = state.level.waves[state.waveIndex];
+        this.info.text = wave
+            ? this.game.i18n.t('editor.wave', { wave: state.waveIndex + 1, seconds: wave.at })
+            : this.game.i18n.t('editor.noWaves');
+    }
+
+    // Draws a shape of `kindId` the way the game will, using a fixed seed so previews don't flicker.
+    private drawPreview(kindId: string, x: number, y: number, into = new Graphics()): Graphics {
+        if (!shapeKinds.has(kindId)) return into;
+        const kind = shapeKinds.get(kindId);
+        drawShape(into, new Shape(kind, 0, 0, buildOutline(kind, new Rng(1).next)));
+        into.position.set(x, y);
+        return into;
+    }
+}
@@ -0,0 +1,67 @@
+import { Application } from 'pixi.js';
+import { GAME_HEIGHT, GAME_WIDTH, LETTERBOX_COLOR } from '../config';
+import { STARTUP_BUNDLES } from '../assets/manifest';
+import { Game } from '../core/Game';
+import type { LoadingData } from '../scenes/LoadingScene';
+import type { PlayData } from '../scenes/PlayScene';
+import { registerGameScenes } from '../scenes/registerScenes';
+import { SceneNames } from '../scenes/SceneNames';
+import type { EditorDocument } from './EditorDocument';
+import { EditorScene } from './EditorScene';
+
+export interface EditorMountOptions {
+    // The signed-in player, whose settings the test plays use.
+    playerId?: string;
+    // Called whenever a test play ends and the editor is back, however the test ended.
+    onTestEnded?: () => void;
+}
+
+export interface EditorHandle {
+    // Plays the level as it stands. Returns false, without playing, if it doesn't validate.
+    testPlay(): boolean;
+    // Abandons a test play and goes back to editing.
+    stopTest(): void;
+    destroy(): void;
+}
+
+/**
+ * Starts the game runtime inside `parent` with the editor as its first scene.
+ * Test plays run through the real play scene and come back to the editor when they end.
+ */
+export async function mountEditor(
+    parent: HTMLElement,
+    document: EditorDocument,
+    options: EditorMountOptions = {},
+): Promise<EditorHandle> {
+    const app = new Application();
+    await app.init({ width: GAME_WIDTH, height: GAME_HEIGHT, background: LETTERBOX_COLOR, antialias: true });
+    parent.appendChild(app.canvas);
+
+    const game = new Game(app, options.playerId || null);
+    let testing = false;
+    registerGameScenes(game);
+    game.scenes.register(SceneNames.Editor, (g) => {
+        if (testing) {
+            testing = false;
+            if (options.onTestEnded) options.onTestEnded();
+        }
+        return new EditorScene(g, document);
+    });
+    const loading: LoadingData = { bundles: STARTUP_BUNDLES, next: { scene: SceneNames.Editor } };
+    game.start(SceneNames.Loading, loading);
+
+    return {
+        testPlay: () => {
+            if (document.validate().length > 0) return false;
+            const data: PlayData = { level: document.snapshot.level, exitTo: { scene: SceneNames.Editor } };
+            game.scenes.change(SceneNames.Play, data);
+            testing = true;
+            return true;
+        },
+        stopTest: () => game.scenes.change(SceneNames.Editor),
+        destroy: () => {
+            game.destroy();
+            app.destroy(true, { children: true });
+        },
+    };
+}
@@ -0,0 +1,82 @@
+import { Container } from 'pixi.js';
+import type { SettingsStore } from '../settings/SettingsStore';
+
+// Trauma lost per second; a full-strength shake settles in just under a second.
+const TRAUMA_DECAY = 1.2;
+// Offset in px and tilt in radians at full trauma.
+const MAX_OFFSET = 14;
+const MAX_TILT = 0.03;
+// How quickly a zoom punch eases back, per second.
+const ZOOM_RECOVERY = 8;
+
+// Smooth pseudo-noise in [-1, 1]: a couple of sines at unrelated rates, offset by `seed`.
+function wobble(time: number, seed: number): number {
+    return Math.sin(time * 37 + seed) * 0.6 + Math.sin(time * 59 + seed * 2.3) * 0.4;
+}
+
+/**
+ * Wraps the gameplay layers so they can shake and zoom as one, leaving overlays such as the HUD still.
+ * At rest it adds no transform, so anything that maps screen points into its children is unaffected.
+ *
+ * Purely cosmetic: effects scale with the player's intensity settings and stop under reduce motion.
+ */
+export class Camera {
+    readonly container = new Container();
+
+    private trauma = 0;
+    private zoom = 0;
+    private time = 0;
+    private width = 0;
+    private height = 0;
+
+    constructor(private readonly settings: SettingsStore) {}
+
+    /**
+     * Adds screen shake, 0 to 1. Trauma stacks up to 1 and shake grows with its square, so small knocks
+     * stay subtle and only big ones really rattle.
+     */
+    addTrauma(amount: number): void {
+        this.trauma = Math.min(1, this.trauma + amount);
+    }
+
+    // Briefly zooms in by `amount` (0.1 is 10%) and eases back.
+    punch(amount: number): void {
+        this.zoom = Math.max(this.zoom, amount);
+    }
+
+    // Shakes and zooms around the middle of a width x height view.
+    resize(width: number, height: number): void {
+        this.width = width;
+        this.height = height;
+        this.apply();
+    }
+
+    update(dt: number): void {
+        this.time += dt;
+        this.trauma = Math.max(0, this.trauma - TRAUMA_DECAY * dt);
+        this.zoom *= Math.exp(-ZOOM_RECOVERY * dt);
+        if (this.zoom < 0.001) this.zoom = 0;
+        this.apply();
+    }
+
+    reset(): void {
+        this.trauma = 0;
+        this.zoom = 0;
+        this.apply();
+    }
+
+    private apply(): void {
+        const settings = this.settings.current;
+        const shake = settings.reduceMotion ? 0 : this.trauma * this.trauma * settings.shakeIntensity;
+        const zoom = settings.reduceMotion ? 0 : this.zoom * settings.zoomIntensity;
+
+        const container = this.container;
+        container.pivot.set(this.width / 2, this.height / 2);
+        container.position.set(
+            this.width / 2 + MAX_OFFSET * shake * wobble(this.time, 1),
+            this.height / 2 + MAX_OFFSET * shake * wobble(this.time, 2),
+        );
+        container.rotation = MAX_TILT * shake * wobble(this.time, 3);
+        container.scale.set(1 + zoom);
+    }
+}
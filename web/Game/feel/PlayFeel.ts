@@ -0,0 +1,66 @@
+import type { ScoreEngine } from '../gameplay/ScoreEngine';
+import type { ScoreEvent } from '../gameplay/ScoreEvents';
+import type { Camera } from './Camera';
+import type { TimeControl } from './TimeControl';
+
+// Chains at least this long get a hit-stop and a zoom punch.
+const BIG_CHAIN = 6;
+// Shapes at least this big (px radius) get a hit-stop when they go off, e.g. a boss core.
+const BIG_EXPLOSION = 40;
+// The round's last moments play at this speed, for this many real seconds.
+const FINALE_SCALE = 0.3;
+const FINALE_SECONDS = 1.5;
+
+// Turns what happens in a round into screen shake, zoom punches, hit-stop and slow motion.
+export class PlayFeel {
+    // Set while fast-forwarding a replay, so seeking doesn't rattle the screen for every skipped step.
+    muted = false;
+
+    private readonly unsubscribe: () => void;
+
+    constructor(private readonly camera: Camera, private readonly time: TimeControl, engine: ScoreEngine) {
+        this.unsubscribe = engine.on(this.onScoreEvent);
+    }
+
+    explosion(radius: number): void {
+        if (this.muted) return;
+        this.camera.addTrauma(Math.min(0.4, radius / 120));
+        if (radius >= BIG_EXPLOSION) this.time.hitStop(0.08);
+    }
+
+    bossPhase(): void {
+        if (this.muted) return;
+        this.camera.addTrauma(0.6);
+        this.camera.punch(0.08);
+        this.time.hitStop(0.12);
+    }
+
+    // The round is over; let it end in slow motion.
+    finale(): void {
+        if (this.muted) return;
+        this.camera.punch(0.06);
+        this.time.slowMotion(FINALE_SCALE, FINALE_SECONDS);
+    }
+
+    destroy(): void {
+        this.unsubscribe();
+        this.camera.reset();
+        this.time.reset();
+    }
+
+    private onScoreEvent = (event: ScoreEvent): void => {
+        if (this.muted) return;
+        switch (event.type) {
+            case 'chain':
+                this.camera.addTrauma(Math.min(0.5, 0.05 * event.size));
+                if (event.size >= BIG_CHAIN) {
+                    this.camera.punch(Math.min(0.1, 0.01 * event.size));
+                    this.time.hitStop(Math.min(0.15, 0.01 * event.size));
+                }
+                break;
+            case 'miss':
+                this.camera.addTrauma(0.15);
+                break;
+        }
+    };
+}
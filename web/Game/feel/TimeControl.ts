@@ -0,0 +1,51 @@
+import type { LoopClock } from '../core/GameLoop';
+import type { SettingsStore } from '../settings/SettingsStore';
+
+/**
+ * Stretches the wall-clock time fed to the game loop: hit-stop holds it still for a moment and slow
+ * motion feeds it in slower. The simulation still runs whole fixed steps, just fewer of them per
+ * second, so scores and replays are exactly the same with every setting.
+ *
+ * Durations are in real seconds. Effects scale with the intensity settings and stop under reduce motion.
+ */
+export class TimeControl implements LoopClock {
+    private stopMs = 0;
+    private slowScale = 1;
+    private slowMs = 0;
+
+    constructor(private readonly settings: SettingsStore) {}
+
+    // The share of real time reaching the game right now: 0 during hit-stop, below 1 in slow motion.
+    get scale(): number {
+        if (this.stopMs > 0) return 0;
+        return this.slowMs > 0 ? this.slowScale : 1;
+    }
+
+    // Freezes the game for `seconds`, e.g. to let a big pop land. Overlapping stops don't add up.
+    hitStop(seconds: number): void {
+        const settings = this.settings.current;
+        if (settings.reduceMotion) return;
+        this.stopMs = Math.max(this.stopMs, seconds * settings.hitStopIntensity * 1000);
+    }
+
+    // Runs the game at `scale` speed for `seconds`. Lower intensity settings pull the scale back towards 1.
+    slowMotion(scale: number, seconds: number): void {
+        const settings = this.settings.current;
+        if (settings.reduceMotion || settings.slowMotionIntensity <= 0) return;
+        this.slowScale = 1 - (1 - scale) * settings.slowMotionIntensity;
+        this.slowMs = seconds * 1000;
+    }
+
+    reset(): void {
+        this.stopMs = 0;
+        this.slowMs = 0;
+        this.slowScale = 1;
+    }
+
+    advance(elapsedMs: number): number {
+        const scaled = elapsedMs * this.scale;
+        if (this.stopMs > 0) this.stopMs = Math.max(0, this.stopMs - elapsedMs);
+        else if (this.slowMs > 0) this.slowMs = Math.max(0, this.slowMs - elapsedMs);
+        return scaled;
+    }
+}
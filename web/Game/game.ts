@@ -1,4 +1,9 @@
-import { Application, Color, FillGradient, Text, TextStyle } from 'pixi.js';
+import { Application } from 'pixi.js';
+import { GAME_HEIGHT, GAME_WIDTH, IS_DEV, LETTERBOX_COLOR } from './config';
+import { Game } from './core/Game';
+import { poolStats } from './core/Pool';
+import { registerGameScenes } from './scenes/registerScenes';
+import { SceneNames } from './scenes/SceneNames';
 
 // Create a PixiJS application.
 (async () => {
@@ -6,48 +11,19 @@ import { Application, Color, FillGradient, Text, TextStyle } from 'pixi.js';
     const app = new Application();
     
     // Initialize the application.
-    await app.init({ width: 640, height: 480, background: '#1099bb' });
+    // The viewport takes over sizing and pixel density once the game starts.
+    await app.init({ width: GAME_WIDTH, height: GAME_HEIGHT, background: LETTERBOX_COLOR, antialias: true });
 
-    // Add the application's canvas to the DOM body.
+    // Add the application's canvas to the DOM body, which it fills.
+    document.body.style.margin = '0';
+    document.body.style.overflow = 'hidden';
+    app.canvas.style.display = 'block';
     document.body.appendChild(app.canvas);
 
-    const fill = new FillGradient(0, 0, 0, 10);
+    const game = new Game(app);
+    registerGameScenes(game);
+    game.start(SceneNames.Boot);
 
-    const colors = [0xffffff, 0x00ff99].map((color) => Color.shared.setValue(color).toNumber());
-
-    colors.forEach((number, index) =>
-    {
-        const ratio = index / colors.length;
-
-        fill.addColorStop(ratio, number);
-    });
-
-    const style = new TextStyle({
-        fontFamily: 'Arial',
-        fontSize: 36,
-        fontStyle: 'italic',
-        fontWeight: 'bold',
-        fill: { fill },
-        stroke: { color: '#4a1850', width: 5, join: 'round' },
-        dropShadow: {
-            color: '#000000',
-            blur: 4,
-            angle: Math.PI / 6,
-            distance: 6,
-        },
-        wordWrap: false,
-    });
-
-    const title = new Text({
-        text: 'ShapeSplosion',
-        style,
-    });
-
-    title.x = 320;
-    title.y = 50;
-    title.anchor.set(0.5,0.5);
-
-    app.stage.addChild(title);
-
-  
-})();
\ No newline at end of file
+    // Lets `shapesplosionPools()` be called from the console to look for leaks.
+    if (IS_DEV) (window as unknown as { shapesplosionPools: typeof poolStats }).shapesplosionPools = poolStats;
+})();
@@ -0,0 +1,146 @@
+import type { CollisionWorld } from '../collision/CollisionWorld';
+import type { Shape } from '../shapes/Shape';
+
+// A shape destroyed as part of a chain. The player's own pop is depth 0.
+export interface ChainLink {
+    chainId: number;
+    shape: Shape;
+    depth: number;
+}
+
+// Reported once a chain has no blasts left to go off.
+export interface ChainSummary {
+    chainId: number;
+    // Shapes destroyed, including the one that started it.
+    size: number;
+    // Longest run of shapes each detonated by the previous one.
+    depth: number;
+    originX: number;
+    originY: number;
+}
+
+export interface ChainStepResult {
+    destroyed: ChainLink[];
+    completed: ChainSummary[];
+}
+
+interface PendingBlast {
+    chainId: number;
+    depth: number;
+    dueTick: number;
+    source: Shape;
+    x: number;
+    y: number;
+}
+
+interface ChainState {
+    size: number;
+    depth: number;
+    originX: number;
+    originY: number;
+    pending: number;
+}
+
+/**
+ * Propagates explosions from shape to shape.
+ *
+ * Time is counted in whole simulation steps and blasts resolve in a fixed order, so the same
+ * pops on the same shapes always produce the same chain, in the browser or on the server.
+ */
+export class ChainReactor {
+    private readonly pending: PendingBlast[] = [];
+    private readonly chains = new Map<number, ChainState>();
+    private tick = 0;
+    private nextChainId = 1;
+
+    constructor(private readonly stepsPerSecond: number) {}
+
+    get active(): boolean {
+        return this.pending.length > 0;
+    }
+
+    /**
+     * Starts a new chain from a shape that was just destroyed. The player's own pops start at depth 0;
+     * anything else (e.g. a power-up) starts deeper, so its shapes ride on the combo without building it.
+     */
+    ignite(shape: Shape, depth = 0): ChainLink {
+        const chainId = this.nextChainId++;
+        this.chains.set(chainId, { size: 1, depth, originX: shape.x, originY: shape.y, pending: 0 });
+        this.schedule(chainId, shape, depth);
+        return { chainId, shape, depth };
+    }
+
+    // Resolves every blast due this step against `world`, which must reflect the current positions.
+    step(world: CollisionWorld<Shape>): ChainStepResult {
+        const result: ChainStepResult = { destroyed: [], completed: [] };
+
+        while (this.pending.length > 0 && this.pending[0].dueTick <= this.tick) {
+            const blast = this.pending.shift() as PendingBlast;
+            this.detonate(blast, world, result);
+
+            const chain = this.chains.get(blast.chainId) as ChainState;
+            chain.pending--;
+            if (chain.pending === 0) {
+                this.chains.delete(blast.chainId);
+                result.completed.push({
+                    chainId: blast.chainId,
+                    size: chain.size,
+                    depth: chain.depth,
+                    originX: chain.originX,
+                    originY: chain.originY,
+                });
+            }
+        }
+
+        this.tick++;
+        return result;
+    }
+
+    clear(): void {
+        this.pending.length = 0;
+        this.chains.clear();
+    }
+
+    private detonate(blast: PendingBlast, world: CollisionWorld<Shape>, result: ChainStepResult): void {
+        const spec = blast.source.kind.blast;
+        if (spec.radius <= 0 || spec.damage <= 0) return;
+
+        const caught = world.queryCircle(blast.x, blast.y, spec.radius);
+        for (let i = 0; i < caught.length; i++) {
+            const target = caught[i];
+            if (target === blast.source || !target.alive) continue;
+
+            const dx = target.x - blast.x;
+            const dy = target.y - blast.y;
+            const distance = Math.min(1, Math.sqrt(dx * dx + dy * dy) / spec.radius);
+            const damage = spec.damage * (1 - spec.falloff * distance);
+
+            if (target.damage(damage)) {
+                const depth = blast.depth + 1;
+                const chain = this.chains.get(blast.chainId) as ChainState;
+                chain.size++;
+                chain.depth = Math.max(chain.depth, depth);
+                this.schedule(blast.chainId, target, depth);
+                result.destroyed.push({ chainId: blast.chainId, shape: target, depth });
+            }
+        }
+    }
+
+    private schedule(chainId: number, shape: Shape, depth: number): void {
+        const blast: PendingBlast = {
+            chainId,
+            depth,
+            dueTick: this.tick + Math.round(shape.kind.blast.delay * this.stepsPerSecond),
+            source: shape,
+            x: shape.x,
+            y: shape.y,
+        };
+
+        // Keep the queue ordered by due tick; blasts due on the same tick go off in the order they were scheduled.
+        let index = this.pending.length;
+        while (index > 0 && this.pending[index - 1].dueTick > blast.dueTick) index--;
+        this.pending.splice(index, 0, blast);
+
+        (this.chains.get(chainId) as ChainState).pending++;
+    }
+}
@@ -0,0 +1,148 @@
+import type { Rng } from '../random/Rng';
+import { Keyframes, peakKeyframe, sampleKeyframes } from './keyframes';
+
+export interface DirectorPoolEntry {
+    kind: string;
+    weight: number;
+    // Hazards are the tough or fast kinds; `hazardMix` decides what share of spawns come from them.
+    hazard: boolean;
+}
+
+export interface RubberBand {
+    // Bounds on the adjustment applied to every curve, e.g. -0.3 eases off by 30% at most.
+    min: number;
+    max: number;
+    // How quickly the adjustment moves towards its target, per second.
+    responsiveness: number;
+    // The player the curves are tuned for. Doing better than this ramps up, worse eases off.
+    targetAccuracy: number;
+    targetPopsPerSecond: number;
+}
+
+export interface DirectorConfig {
+    // Shapes per second.
+    spawnRate: Keyframes;
+    // Multipliers on a kind's speed and hit points.
+    speed: Keyframes;
+    toughness: Keyframes;
+    // Share of spawns drawn from hazard kinds, 0 to 1.
+    hazardMix: Keyframes;
+    pool: DirectorPoolEntry[];
+    rubberBand: RubberBand;
+}
+
+export const DEFAULT_DIRECTOR: DirectorConfig = {
+    spawnRate: [[0, 0.8], [30, 1.4], [60, 2.2], [120, 3]],
+    speed: [[0, 1], [60, 1.3], [120, 1.6]],
+    toughness: [[0, 1], [45, 1], [90, 1.5], [120, 2]],
+    hazardMix: [[0, 0], [20, 0.1], [60, 0.3], [120, 0.5]],
+    pool: [
+        { kind: 'circle', weight: 3, hazard: false },
+        { kind: 'triangle', weight: 3, hazard: false },
+        { kind: 'square', weight: 2, hazard: false },
+        { kind: 'shard', weight: 2, hazard: false },
+        { kind: 'hexagon', weight: 1, hazard: true },
+        { kind: 'star', weight: 1, hazard: true },
+    ],
+    rubberBand: {
+        min: -0.3,
+        max: 0.3,
+        responsiveness: 0.1,
+        targetAccuracy: 0.7,
+        targetPopsPerSecond: 1.5,
+    },
+};
+
+export interface DirectorSpawn {
+    kind: string;
+    speedScale: number;
+    toughnessScale: number;
+}
+
+// Half-life, in seconds, of the moving averages used to judge the player.
+const PERFORMANCE_HALF_LIFE = 8;
+
+/**
+ * Schedules spawns from difficulty curves over time, nudged up or down by how well the player is
+ * doing. All randomness comes from the director's own stream so it stays reproducible.
+ */
+export class Director {
+    private time = 0;
+    private spawnCredit = 0;
+    private adjustment = 0;
+    private accuracy: number;
+    private popsPerSecond: number;
+    private popsThisStep = 0;
+    private readonly peakSpawnRate: number;
+
+    constructor(private readonly config: DirectorConfig, private readonly rng: Rng) {
+        // Start by assuming the player is exactly on target.
+        this.accuracy = config.rubberBand.targetAccuracy;
+        this.popsPerSecond = config.rubberBand.targetPopsPerSecond;
+        this.peakSpawnRate = Math.max(peakKeyframe(config.spawnRate), 0.0001);
+    }
+
+    // How hard things are right now, 0 (calm) to 1 (the curves' peak, fully rubber-banded up).
+    get intensity(): number {
+        const base = sampleKeyframes(this.config.spawnRate, this.time) / this.peakSpawnRate;
+        return Math.max(0, Math.min(1, base * (1 + this.adjustment)));
+    }
+
+    // Current rubber-band adjustment, within the configured bounds.
+    get performanceAdjustment(): number {
+        return this.adjustment;
+    }
+
+    recordShot(hit: boolean): void {
+        const weight = 0.1;
+        this.accuracy += ((hit ? 1 : 0) - this.accuracy) * weight;
+    }
+
+    recordPop(): void {
+        this.popsThisStep++;
+    }
+
+    // Advances the director by one step and returns the shapes it wants spawned.
+    step(dt: number): DirectorSpawn[] {
+        this.time += dt;
+        this.updatePerformance(dt);
+
+        const scale = 1 + this.adjustment;
+        this.spawnCredit += sampleKeyframes(this.config.spawnRate, this.time) * scale * dt;
+
+        const spawns: DirectorSpawn[] = [];
+        while (this.spawnCredit >= 1) {
+            this.spawnCredit -= 1;
+            spawns.push({
+                kind: this.pickKind(),
+                speedScale: sampleKeyframes(this.config.speed, this.time) * scale,
+                toughnessScale: sampleKeyframes(this.config.toughness, this.time) * scale,
+            });
+        }
+        return spawns;
+    }
+
+    private updatePerformance(dt: number): void {
+        const band = this.config.rubberBand;
+        const decay = Math.pow(0.5, dt / PERFORMANCE_HALF_LIFE);
+        this.popsPerSecond = this.popsPerSecond * decay + (this.popsThisStep / dt) * (1 - decay);
+        this.popsThisStep = 0;
+
+        const accuracyDelta = this.accuracy - band.targetAccuracy;
+        const paceDelta = (this.popsPerSecond - band.targetPopsPerSecond) / Math.max(band.targetPopsPerSecond, 0.0001);
+        const target = Math.max(band.min, Math.min(band.max, accuracyDelta + paceDelta * 0.5));
+
+        const maxChange = band.responsiveness * dt;
+        this.adjustment += Math.max(-maxChange, Math.min(maxChange, target - this.adjustment));
+    }
+
+    private pickKind(): string {
+        const mix = Math.max(0, Math.min(1, sampleKeyframes(this.config.hazardMix, this.time)));
+        const hazards = this.config.pool.filter((entry) => entry.hazard);
+        const regular = this.config.pool.filter((entry) => !entry.hazard);
+
+        const useHazard = hazards.length > 0 && (regular.length === 0 || this.rng.chance(mix));
+        const entries = useHazard ? hazards : regular;
+        return entries[this.rng.weighted(entries.map((entry) => entry.weight))].kind;
+    }
+}
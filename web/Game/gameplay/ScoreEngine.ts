@@ -0,0 +1,213 @@
+import type { ChainLink, ChainSummary } from './ChainReactor';
+import type { RoundBonus, ScoreEvent, ScoreListener } from './ScoreEvents';
+
+export interface ScoringRules {
+    // Seconds after a pop in which the next pop keeps the combo going.
+    comboWindow: number;
+    // Multiplier gained per pop in a combo, and its ceiling.
+    comboStep: number;
+    maxMultiplier: number;
+    // Chain bonus: per level of depth, and per shape beyond the first.
+    chainDepthBonus: number;
+    chainSizeBonus: number;
+    // Points lost for a pop that hits nothing. A miss also breaks the combo.
+    missPenalty: number;
+    // End-of-round bonuses.
+    accuracyBonus: number;
+    bestComboBonus: number;
+    timeBonusPerSecond: number;
+}
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+    comboWindow: 1.2,
+    comboStep: 0.25,
+    maxMultiplier: 5,
+    chainDepthBonus: 25,
+    chainSizeBonus: 10,
+    missPenalty: 5,
+    accuracyBonus: 500,
+    bestComboBonus: 20,
+    timeBonusPerSecond: 10,
+};
+
+export interface RoundResult {
+    // Whether the round ended by meeting its goal rather than running out of time.
+    cleared: boolean;
+    secondsRemaining: number;
+}
+
+export interface ScoreSummary {
+    total: number;
+    pops: number;
+    shots: number;
+    hits: number;
+    accuracy: number;
+    bestCombo: number;
+    longestChain: number;
+    deepestChain: number;
+    bonuses: RoundBonus[];
+}
+
+/**
+ * Turns gameplay outcomes into points. Knows nothing about rendering: it emits `ScoreEvent`s and
+ * anything interested (the HUD, a replay log, a submission to the backend) subscribes.
+ */
+export class ScoreEngine {
+    private readonly listeners: ScoreListener[] = [];
+    private total = 0;
+    private combo = 0;
+    private comboTimer = 0;
+    private pops = 0;
+    private shots = 0;
+    private hits = 0;
+    private bestCombo = 0;
+    private longestChain = 0;
+    private deepestChain = 0;
+    private bonuses: RoundBonus[] = [];
+    private pointScale = 1;
+
+    constructor(private readonly rules: ScoringRules = DEFAULT_SCORING_RULES) {}
+
+    get score(): number {
+        return this.total;
+    }
+
+    get multiplier(): number {
+        return Math.min(this.rules.maxMultiplier, 1 + Math.max(0, this.combo - 1) * this.rules.comboStep);
+    }
+
+    // Multiplies points from pops and chains on top of the combo, e.g. while a double-score power-up runs.
+    setPointScale(scale: number): void {
+        this.pointScale = scale;
+    }
+
+    // Returns a function that removes the listener.
+    on(listener: ScoreListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            const index = this.listeners.indexOf(listener);
+            if (index !== -1) this.listeners.splice(index, 1);
+        };
+    }
+
+    step(dt: number): void {
+        if (this.combo === 0) return;
+        this.comboTimer -= dt;
+        if (this.comboTimer <= 0) this.endCombo();
+    }
+
+    // The player tried to pop at (x, y). `hit` is whether anything was under the pointer.
+    shot(x: number, y: number, hit: boolean): void {
+        this.shots++;
+        if (hit) {
+            this.hits++;
+            return;
+        }
+
+        const penalty = Math.min(this.rules.missPenalty, this.total);
+        this.total -= penalty;
+        this.endCombo();
+        this.emit({ type: 'miss', penalty, x, y, total: this.total });
+    }
+
+    shapeDestroyed(link: ChainLink): void {
+        // Only the player's own pops build the combo; chained shapes ride on it.
+        if (link.depth === 0) {
+            this.combo++;
+            this.comboTimer = this.rules.comboWindow;
+            this.bestCombo = Math.max(this.bestCombo, this.combo);
+            if (this.combo > 1) this.emit({ type: 'combo', combo: this.combo, multiplier: this.multiplier });
+        }
+
+        const base = link.shape.points;
+        const multiplier = this.multiplier * this.pointScale;
+        const points = Math.round(base * multiplier);
+        this.pops++;
+        this.total += points;
+        this.emit({
+            type: 'pop',
+            kind: link.shape.kind.id,
+            chainId: link.chainId,
+            depth: link.depth,
+            base,
+            multiplier,
+            points,
+            x: link.shape.x,
+            y: link.shape.y,
+            total: this.total,
+        });
+    }
+
+    chainCompleted(summary: ChainSummary): void {
+        this.longestChain = Math.max(this.longestChain, summary.size);
+        this.deepestChain = Math.max(this.deepestChain, summary.depth);
+        if (summary.size < 2) return;
+
+        const points = Math.round(
+            (summary.depth * this.rules.chainDepthBonus + (summary.size - 1) * this.rules.chainSizeBonus) * this.multiplier * this.pointScale,
+        );
+        this.total += points;
+        this.emit({
+            type: 'chain',
+            chainId: summary.chainId,
+            size: summary.size,
+            depth: summary.depth,
+            points,
+            x: summary.originX,
+            y: summary.originY,
+            total: this.total,
+        });
+    }
+
+    // Adds end-of-round bonuses. Call once, when the round is over.
+    finishRound(result: RoundResult): ScoreSummary {
+        this.endCombo();
+
+        const bonuses: RoundBonus[] = [];
+        if (this.shots > 0) {
+            bonuses.push({ id: 'accuracy', label: 'Accuracy', points: Math.round(this.accuracy() * this.rules.accuracyBonus) });
+        }
+        if (this.bestCombo > 1) {
+            bonuses.push({ id: 'bestCombo', label: 'Best combo', points: this.bestCombo * this.rules.bestComboBonus });
+        }
+        if (result.cleared && result.secondsRemaining > 0) {
+            bonuses.push({ id: 'timeLeft', label: 'Time left', points: Math.round(result.secondsRemaining * this.rules.timeBonusPerSecond) });
+        }
+
+        this.bonuses = bonuses.filter((bonus) => bonus.points > 0);
+        this.bonuses.forEach((bonus) => (this.total += bonus.points));
+        this.emit({ type: 'round', bonuses: this.bonuses, total: this.total });
+
+        return this.summary();
+    }
+
+    summary(): ScoreSummary {
+        return {
+            total: this.total,
+            pops: this.pops,
+            shots: this.shots,
+            hits: this.hits,
+            accuracy: this.accuracy(),
+            bestCombo: this.bestCombo,
+            longestChain: this.longestChain,
+            deepestChain: this.deepestChain,
+            bonuses: this.bonuses.slice(),
+        };
+    }
+
+    private accuracy(): number {
+        return this.shots === 0 ? 1 : this.hits / this.shots;
+    }
+
+    private endCombo(): void {
+        if (this.combo === 0) return;
+        const combo = this.combo;
+        this.combo = 0;
+        this.comboTimer = 0;
+        this.emit({ type: 'comboEnded', combo });
+    }
+
+    private emit(event: ScoreEvent): void {
+        this.listeners.slice().forEach((listener) => listener(event));
+    }
+}
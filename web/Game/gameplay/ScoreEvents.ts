@@ -0,0 +1,67 @@
+// Everything the score engine reports. Plain data so the HUD and a future server submission can share it.
+
+export interface PopScoreEvent {
+    type: 'pop';
+    kind: string;
+    chainId: number;
+    depth: number;
+    base: number;
+    multiplier: number;
+    points: number;
+    x: number;
+    y: number;
+    total: number;
+}
+
+export interface ComboScoreEvent {
+    type: 'combo';
+    combo: number;
+    multiplier: number;
+}
+
+export interface ComboEndedScoreEvent {
+    type: 'comboEnded';
+    combo: number;
+}
+
+export interface ChainScoreEvent {
+    type: 'chain';
+    chainId: number;
+    size: number;
+    depth: number;
+    points: number;
+    x: number;
+    y: number;
+    total: number;
+}
+
+export interface MissScoreEvent {
+    type: 'miss';
+    penalty: number;
+    x: number;
+    y: number;
+    total: number;
+}
+
+export interface RoundBonus {
+    // Names the bonus to the UI, which shows it as the `bonus.<id>` message.
+    id: 'accuracy' | 'bestCombo' | 'timeLeft';
+    label: string;
+    points: number;
+}
+
+export interface RoundScoreEvent {
+    type: 'round';
+    bonuses: RoundBonus[];
+    total: number;
+}
+
+export type ScoreEvent =
+    | PopScoreEvent
+    | ComboScoreEvent
+    | ComboEndedScoreEvent
+    | ChainScoreEvent
+    | MissScoreEvent
+    | RoundScoreEvent;
+
+export type ScoreListener = (event: ScoreEvent) => void;
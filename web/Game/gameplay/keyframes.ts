@@ -0,0 +1,23 @@
+// A piecewise-linear curve over time: [[seconds, value], ...], sorted by time. Held flat past either end.
+export type Keyframes = Array<[number, number]>;
+
+export function sampleKeyframes(keys: Keyframes, time: number): number {
+    if (keys.length === 0) return 0;
+    if (time <= keys[0][0]) return keys[0][1];
+
+    for (let i = 1; i < keys.length; i++) {
+        const [t1, v1] = keys[i];
+        if (time <= t1) {
+            const [t0, v0] = keys[i - 1];
+            const span = t1 - t0;
+            return span <= 0 ? v1 : v0 + ((v1 - v0) * (time - t0)) / span;
+        }
+    }
+    return keys[keys.length - 1][1];
+}
+
+export function peakKeyframe(keys: Keyframes): number {
+    let peak = 0;
+    keys.forEach((key) => (peak = Math.max(peak, key[1])));
+    return peak;
+}
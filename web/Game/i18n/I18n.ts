@@ -0,0 +1,138 @@
+import { SchemaChecker } from '../data/SchemaChecker';
+import ar from './catalogs/ar.json';
+import en from './catalogs/en.json';
+import es from './catalogs/es.json';
+import ja from './catalogs/ja.json';
+import zh from './catalogs/zh.json';
+import { fontsFor, LocaleFonts } from './fonts';
+import { FALLBACK_LOCALE, LocaleId, LOCALES } from './locale';
+import { formatMessage, MessageLocale, MessageParams, MessagePart, NumberStyle, parseMessage } from './MessageFormat';
+
+export type Catalog = Map<string, MessagePart[]>;
+
+export type LocaleListener = (locale: LocaleId) => void;
+
+const CATALOG_SOURCES: Record<LocaleId, unknown> = { en, es, ja, zh, ar };
+
+const NUMBER_STYLES: Record<NumberStyle, Intl.NumberFormatOptions> = {
+    number: { maximumFractionDigits: 2 },
+    integer: { maximumFractionDigits: 0 },
+    percent: { style: 'percent', maximumFractionDigits: 0 },
+};
+
+// Right-to-left embedding around each message. Canvas text runs left to right, which would put the
+// numbers and punctuation of an Arabic message on the wrong side.
+const RTL_START = '\u202B';
+const RTL_END = '\u202C';
+
+// Parses every message up front, so a broken translation fails at startup with a list of the bad ones.
+export function parseCatalog(raw: unknown, locale: string): Catalog {
+    const checker = new SchemaChecker();
+    const messages = checker.object(raw, locale);
+    const catalog: Catalog = new Map();
+    Object.keys(messages).forEach((key) => {
+        const source = checker.string(messages, key, locale);
+        try {
+            catalog.set(key, parseMessage(source));
+        } catch (error) {
+            checker.fail(`${locale}.${key}`, (error as Error).message);
+        }
+    });
+    checker.assert(`${locale} message catalog`);
+    return catalog;
+}
+
+const catalogs = new Map<LocaleId, Catalog>();
+
+function catalogFor(locale: LocaleId): Catalog {
+    let catalog = catalogs.get(locale);
+    if (!catalog) {
+        catalog = parseCatalog(CATALOG_SOURCES[locale], locale);
+        catalogs.set(locale, catalog);
+    }
+    return catalog;
+}
+
+/**
+ * The player-facing text of the pixi runtime, in the current locale. Messages missing from a
+ * translation fall back to English, and to their key after that, so a gap shows instead of breaking.
+ */
+export class I18n {
+    private current: LocaleId;
+    private catalog: Catalog;
+    private readonly fallback = catalogFor(FALLBACK_LOCALE);
+    private plurals: Intl.PluralRules;
+    private readonly numberFormats = new Map<string, Intl.NumberFormat>();
+    private readonly listeners = new Set<LocaleListener>();
+    private readonly messageLocale: MessageLocale = {
+        number: (value, style) => this.number(value, NUMBER_STYLES[style]),
+        plural: (value) => this.plurals.select(value),
+    };
+
+    constructor(locale: LocaleId = FALLBACK_LOCALE) {
+        this.current = locale;
+        this.catalog = catalogFor(locale);
+        this.plurals = new Intl.PluralRules(locale);
+    }
+
+    get locale(): LocaleId {
+        return this.current;
+    }
+
+    get direction(): 'ltr' | 'rtl' {
+        return LOCALES[this.current].direction;
+    }
+
+    get fonts(): LocaleFonts {
+        return fontsFor(this.current);
+    }
+
+    setLocale(locale: LocaleId): void {
+        if (locale === this.current) return;
+        this.current = locale;
+        this.catalog = catalogFor(locale);
+        this.plurals = new Intl.PluralRules(locale);
+        this.numberFormats.clear();
+        this.listeners.forEach((listener) => listener(locale));
+    }
+
+    // Calls `listener` after every switch of language. Returns a function that unsubscribes it.
+    onChange(listener: LocaleListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    has(key: string): boolean {
+        return this.catalog.has(key) || this.fallback.has(key);
+    }
+
+    // The message `key`, with `params` filled in.
+    t(key: string, params: MessageParams = {}): string {
+        const parts = this.catalog.get(key) || this.fallback.get(key);
+        if (!parts) return key;
+        const text = formatMessage(parts, params, this.messageLocale);
+        return this.direction === 'rtl' ? RTL_START + text + RTL_END : text;
+    }
+
+    /**
+     * For names that come from data files, such as levels, bosses and power-ups: the message `key` if
+     * the catalogs have one, or else `fallback`, the name the data gives. New content shows its own
+     * name until someone translates it.
+     */
+    label(key: string, fallback: string): string {
+        return this.has(key) ? this.t(key) : fallback;
+    }
+
+    // `value` with the locale's digits, separators and decimal mark, e.g. scores.
+    number(value: number, options: Intl.NumberFormatOptions = {}): string {
+        const cacheKey = JSON.stringify(options);
+        let format = this.numberFormats.get(cacheKey);
+        if (!format) {
+            format = new Intl.NumberFormat(this.current, options);
+            this.numberFormats.set(cacheKey, format);
+        }
+        return format.format(value);
+    }
+}
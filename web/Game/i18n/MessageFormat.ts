@@ -0,0 +1,193 @@
+export type MessageParams = Record<string, string | number>;
+
+export type NumberStyle = 'number' | 'integer' | 'percent';
+
+export type MessagePart =
+    | string
+    | { type: 'argument'; name: string; style: NumberStyle | null }
+    | { type: 'plural'; name: string; options: Record<string, MessagePart[]> }
+    | { type: 'select'; name: string; options: Record<string, MessagePart[]> }
+    // `#` inside a plural option: the plural's number.
+    | { type: 'pound' };
+
+// What formatting needs from the locale; `I18n` supplies it with cached `Intl` objects.
+export interface MessageLocale {
+    number(value: number, style: NumberStyle): string;
+    // The CLDR plural category of `value`: zero, one, two, few, many or other.
+    plural(value: number): string;
+}
+
+export class MessageSyntaxError extends Error {
+    constructor(message: string, readonly source: string, readonly position: number) {
+        super(`${message} at ${position} in "${source}"`);
+        this.name = 'MessageSyntaxError';
+        Object.setPrototypeOf(this, MessageSyntaxError.prototype);
+    }
+}
+
+const NUMBER_STYLES: NumberStyle[] = ['number', 'integer', 'percent'];
+
+/**
+ * Reads the part of ICU MessageFormat the catalogs use: `{name}`, `{name, number}` with an optional
+ * `integer` or `percent` style, `{name, plural, =0 {...} one {...} other {...}}` with `#` for the
+ * number, and `{name, select, a {...} other {...}}`. An apostrophe before a brace or `#` quotes it,
+ * and two apostrophes make one, so "don't" needs no escaping.
+ */
+class Parser {
+    private position = 0;
+
+    constructor(private readonly source: string) {}
+
+    parse(): MessagePart[] {
+        const parts = this.message(false);
+        if (this.position < this.source.length) this.fail('Unexpected "}"');
+        return parts;
+    }
+
+    private message(inPlural: boolean): MessagePart[] {
+        const parts: MessagePart[] = [];
+        let text = '';
+        const flush = (): void => {
+            if (text) parts.push(text);
+            text = '';
+        };
+
+        while (this.position < this.source.length) {
+            const char = this.source[this.position];
+            if (char === '}') break;
+            if (char === '{') {
+                flush();
+                parts.push(this.argument());
+            } else if (char === '#' && inPlural) {
+                flush();
+                parts.push({ type: 'pound' });
+                this.position++;
+            } else if (char === "'") {
+                text += this.quoted();
+            } else {
+                text += char;
+                this.position++;
+            }
+        }
+        flush();
+        return parts;
+    }
+
+    // An apostrophe only quotes when followed by syntax; otherwise it's an ordinary character.
+    private quoted(): string {
+        const next = this.source[this.position + 1];
+        if (next === "'") {
+            this.position += 2;
+            return "'";
+        }
+        if (next !== '{' && next !== '}' && next !== '#') {
+            this.position++;
+            return "'";
+        }
+        const end = this.source.indexOf("'", this.position + 1);
+        if (end === -1) this.fail('Unclosed quote');
+        const text = this.source.slice(this.position + 1, end);
+        this.position = end + 1;
+        return text;
+    }
+
+    private argument(): MessagePart {
+        this.expect('{');
+        const name = this.word();
+        if (!name) this.fail('Expected an argument name');
+
+        if (this.peek() === '}') {
+            this.position++;
+            return { type: 'argument', name, style: null };
+        }
+        this.expect(',');
+        const kind = this.word();
+        if (kind === 'number') {
+            let style: NumberStyle = 'number';
+            if (this.peek() === ',') {
+                this.position++;
+                style = this.word() as NumberStyle;
+                if (NUMBER_STYLES.indexOf(style) === -1) this.fail(`Unknown number style "${style}"`);
+            }
+            this.expect('}');
+            return { type: 'argument', name, style };
+        }
+        if (kind !== 'plural' && kind !== 'select') this.fail(`Unknown argument type "${kind}"`);
+
+        this.expect(',');
+        const options: Record<string, MessagePart[]> = {};
+        while (this.peek() !== '}') {
+            const selector = this.word();
+            if (!selector) this.fail('Expected an option name');
+            this.expect('{');
+            options[selector] = this.message(kind === 'plural');
+            this.expect('}');
+        }
+        this.position++;
+        if (!options.other) this.fail(`The ${kind} for "${name}" needs an "other" option`);
+        return { type: kind, name, options };
+    }
+
+    // A run of name characters, skipping whitespace on both sides. `=` allows exact plural matches like `=0`.
+    private word(): string {
+        this.skipSpace();
+        const start = this.position;
+        while (this.position < this.source.length && /[\w=.]/.test(this.source[this.position])) this.position++;
+        const word = this.source.slice(start, this.position);
+        this.skipSpace();
+        return word;
+    }
+
+    private peek(): string | undefined {
+        this.skipSpace();
+        return this.source[this.position];
+    }
+
+    private expect(char: string): void {
+        if (this.peek() !== char) this.fail(`Expected "${char}"`);
+        this.position++;
+    }
+
+    private skipSpace(): void {
+        while (this.position < this.source.length && /\s/.test(this.source[this.position])) this.position++;
+    }
+
+    private fail(message: string): never {
+        throw new MessageSyntaxError(message, this.source, this.position);
+    }
+}
+
+// Throws a `MessageSyntaxError` for malformed messages.
+export function parseMessage(source: string): MessagePart[] {
+    return new Parser(source).parse();
+}
+
+// Fills in `parts`. Missing arguments show as `{name}` so they stand out rather than vanish.
+export function formatMessage(parts: MessagePart[], params: MessageParams, locale: MessageLocale, pound?: number): string {
+    let result = '';
+    parts.forEach((part) => {
+        if (typeof part === 'string') {
+            result += part;
+            return;
+        }
+        if (part.type === 'pound') {
+            result += pound !== undefined ? locale.number(pound, 'number') : '#';
+            return;
+        }
+
+        const value = params[part.name];
+        if (value === undefined) {
+            result += `{${part.name}}`;
+        } else if (part.type === 'argument') {
+            result += typeof value === 'number' ? locale.number(value, part.style || 'number') : value;
+        } else if (part.type === 'plural') {
+            const count = Number(value);
+            const option = part.options[`=${count}`] || part.options[locale.plural(count)] || part.options.other;
+            result += formatMessage(option, params, locale, count);
+        } else {
+            const option = part.options[String(value)] || part.options.other;
+            result += formatMessage(option, params, locale, pound);
+        }
+    });
+    return result;
+}
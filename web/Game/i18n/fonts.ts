@@ -0,0 +1,25 @@
+import type { LocaleId } from './locale';
+
+export interface LocaleFonts {
+    // Tried in order for each character, so Latin text and digits stay in Arial whatever the language.
+    family: string[];
+    // Slanted headings only suit scripts with a real italic; CJK and Arabic fonts fake it badly.
+    italic: boolean;
+}
+
+// Japanese and Chinese share characters drawn differently, so each lists its own fonts first.
+const JAPANESE_FONTS = ['Hiragino Sans', 'Hiragino Kaku Gothic ProN', 'Yu Gothic', 'Meiryo', 'Noto Sans CJK JP'];
+const CHINESE_FONTS = ['PingFang SC', 'Microsoft YaHei', 'Noto Sans CJK SC', 'Source Han Sans SC'];
+const ARABIC_FONTS = ['Geeza Pro', 'Noto Sans Arabic', 'Segoe UI', 'Tahoma'];
+
+const FONTS: Record<LocaleId, LocaleFonts> = {
+    en: { family: ['Arial', 'Helvetica', 'sans-serif'], italic: true },
+    es: { family: ['Arial', 'Helvetica', 'sans-serif'], italic: true },
+    ja: { family: ['Arial', ...JAPANESE_FONTS, ...CHINESE_FONTS, 'sans-serif'], italic: false },
+    zh: { family: ['Arial', ...CHINESE_FONTS, ...JAPANESE_FONTS, 'sans-serif'], italic: false },
+    ar: { family: ['Arial', ...ARABIC_FONTS, 'sans-serif'], italic: false },
+};
+
+export function fontsFor(locale: LocaleId): LocaleFonts {
+    return FONTS[locale];
+}
@@ -0,0 +1,58 @@
+/**
+ * Which language to show, shared by the game and the React shell so both agree on it. No pixi here:
+ * the shell imports this module directly.
+ */
+
+export type LocaleId = 'en' | 'es' | 'ja' | 'zh' | 'ar';
+
+// 'auto' follows the browser's languages.
+export type LanguageChoice = 'auto' | LocaleId;
+
+export interface LocaleInfo {
+    // The language's name in itself, as the language menu lists it.
+    name: string;
+    direction: 'ltr' | 'rtl';
+}
+
+export const FALLBACK_LOCALE: LocaleId = 'en';
+
+export const LOCALES: Record<LocaleId, LocaleInfo> = {
+    en: { name: 'English', direction: 'ltr' },
+    es: { name: 'Español', direction: 'ltr' },
+    ja: { name: '日本語', direction: 'ltr' },
+    zh: { name: '简体中文', direction: 'ltr' },
+    ar: { name: 'العربية', direction: 'rtl' },
+};
+
+export const LOCALE_IDS = Object.keys(LOCALES) as LocaleId[];
+
+// The supported locale for a BCP 47 tag such as "es-MX" or "zh-Hans-CN", going by its language only.
+export function matchLocale(tag: string): LocaleId | null {
+    const language = tag.toLowerCase().split(/[-_]/)[0];
+    return LOCALE_IDS.indexOf(language as LocaleId) !== -1 ? (language as LocaleId) : null;
+}
+
+// The browser's preferred languages, most preferred first. Empty outside a browser.
+export function browserLanguages(): string[] {
+    if (typeof navigator === 'undefined') return [];
+    if (navigator.languages && navigator.languages.length > 0) return navigator.languages.slice();
+    return navigator.language ? [navigator.language] : [];
+}
+
+// The locale to show for the player's choice: the choice itself, or the first browser language we support.
+export function detectLocale(choice: string = 'auto', languages: string[] = browserLanguages()): LocaleId {
+    const chosen = choice === 'auto' ? null : matchLocale(choice);
+    if (chosen) return chosen;
+    for (const language of languages) {
+        const match = matchLocale(language);
+        if (match) return match;
+    }
+    return FALLBACK_LOCALE;
+}
+
+// Marks the page with the locale's language and direction, for screen readers, fonts and DOM text.
+export function applyDocumentLocale(locale: LocaleId): void {
+    if (typeof document === 'undefined') return;
+    document.documentElement.lang = locale;
+    document.documentElement.dir = LOCALES[locale].direction;
+}
@@ -0,0 +1,280 @@
+import { GAME_HEIGHT, GAME_WIDTH } from '../config';
+import {
+    actionsFor,
+    ActionBindings,
+    cloneBindings,
+    DEFAULT_BINDINGS,
+    GAME_ACTIONS,
+    GameAction,
+    InputDevice,
+    POINT_ACTIONS,
+} from './actions';
+import { ActionTrigger, emptySnapshot, InputSnapshot, quantize } from './InputSnapshot';
+
+// Aim cursor speed for keyboard and gamepad, in game px/s.
+const AIM_SPEED = 420;
+
+// Stick values inside this radius are treated as centred.
+const STICK_DEADZONE = 0.2;
+
+// The coordinate space pointer positions are mapped into, and that the aim cursor is kept inside.
+export interface InputSpace {
+    readonly width: number;
+    readonly height: number;
+    toVirtual(clientX: number, clientY: number): { x: number; y: number };
+}
+
+// Maps the target element onto a fixed GAME_WIDTH x GAME_HEIGHT screen, for hosts without a viewport.
+function stretchedSpace(target: HTMLElement): InputSpace {
+    return {
+        width: GAME_WIDTH,
+        height: GAME_HEIGHT,
+        toVirtual: (clientX, clientY) => {
+            const rect = target.getBoundingClientRect();
+            return {
+                x: ((clientX - rect.left) / rect.width) * GAME_WIDTH,
+                y: ((clientY - rect.top) / rect.height) * GAME_HEIGHT,
+            };
+        },
+    };
+}
+
+const FORM_CONTROLS = ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'];
+
+// Keys pressed in the page's own controls, such as the level editor's fields, belong to them.
+function isFormControl(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable || FORM_CONTROLS.indexOf(target.tagName) !== -1;
+}
+
+/**
+ * Turns pointer, touch, keyboard and gamepad input into game actions.
+ *
+ * DOM events only ever queue work; `capture` drains the queue once per fixed step and produces the
+ * `InputSnapshot` the simulation reads. That keeps the simulation deterministic no matter when
+ * events arrive relative to frames.
+ */
+export class InputManager {
+    private bindings: ActionBindings = cloneBindings(DEFAULT_BINDINGS);
+    private snapshot: InputSnapshot = emptySnapshot();
+
+    private readonly keysDown = new Set<string>();
+    private readonly mouseDown = new Set<number>();
+    private readonly queuedPresses: GameAction[] = [];
+    private readonly queuedTriggers: ActionTrigger[] = [];
+    private buttonsDown: boolean[] = [];
+    private wasHeld: GameAction[] = [];
+
+    private keyListener: ((code: string) => void) | null = null;
+
+    private aimX = GAME_WIDTH / 2;
+    private aimY = GAME_HEIGHT / 2;
+
+    constructor(private readonly target: HTMLElement, private readonly space: InputSpace = stretchedSpace(target)) {
+        target.addEventListener('pointerdown', this.onPointerDown);
+        target.addEventListener('pointermove', this.onPointerMove);
+        target.addEventListener('contextmenu', this.onContextMenu);
+        window.addEventListener('pointerup', this.onPointerUp);
+        window.addEventListener('keydown', this.onKeyDown);
+        window.addEventListener('keyup', this.onKeyUp);
+        window.addEventListener('blur', this.onBlur);
+
+        // Let touches reach us instead of scrolling or zooming the page.
+        target.style.touchAction = 'none';
+    }
+
+    // The snapshot for the step currently being simulated.
+    get current(): InputSnapshot {
+        return this.snapshot;
+    }
+
+    getBindings(): ActionBindings {
+        return cloneBindings(this.bindings);
+    }
+
+    setBindings(bindings: ActionBindings): void {
+        this.bindings = cloneBindings(bindings);
+    }
+
+    // Replaces what triggers `action` on one device, e.g. rebind('pause', 'keys', ['KeyQ']).
+    rebind(action: GameAction, device: InputDevice, codes: Array<string | number>): void {
+        const map = this.bindings[device] as Partial<Record<GameAction, Array<string | number>>>;
+        map[action] = codes.slice();
+    }
+
+    resetBindings(): void {
+        this.bindings = cloneBindings(DEFAULT_BINDINGS);
+    }
+
+    // Hands the next key press to `listener` instead of turning it into actions, e.g. to rebind a key.
+    // Null stops listening.
+    listenForKey(listener: ((code: string) => void) | null): void {
+        this.keyListener = listener;
+    }
+
+    // Builds the snapshot for step `tick`. Call exactly once per fixed step, before updating scenes.
+    capture(tick: number, dt: number): InputSnapshot {
+        const pressed = this.queuedPresses.splice(0, this.queuedPresses.length);
+        const triggers = this.queuedTriggers.splice(0, this.queuedTriggers.length);
+        const gamepad = this.pollGamepad(pressed);
+
+        const held = GAME_ACTIONS.filter((action) => this.isDown(action));
+
+        // Anything that became held without a queued press (e.g. a gamepad button) still counts as pressed.
+        held.forEach((action) => {
+            if (this.wasHeld.indexOf(action) === -1 && pressed.indexOf(action) === -1) pressed.push(action);
+        });
+        this.wasHeld = held;
+
+        this.moveAim(held, gamepad, dt);
+
+        // Keyboard and gamepad point actions fire at the aim cursor.
+        pressed.forEach((action) => {
+            if (POINT_ACTIONS.indexOf(action) === -1) return;
+            if (triggers.some((trigger) => trigger.action === action)) return;
+            triggers.push({ action, x: this.aimX, y: this.aimY });
+        });
+
+        triggers.forEach((trigger) => {
+            trigger.x = quantize(trigger.x);
+            trigger.y = quantize(trigger.y);
+        });
+        this.snapshot = { tick, aimX: quantize(this.aimX), aimY: quantize(this.aimY), held, pressed, triggers };
+        return this.snapshot;
+    }
+
+    destroy(): void {
+        this.target.removeEventListener('pointerdown', this.onPointerDown);
+        this.target.removeEventListener('pointermove', this.onPointerMove);
+        this.target.removeEventListener('contextmenu', this.onContextMenu);
+        window.removeEventListener('pointerup', this.onPointerUp);
+        window.removeEventListener('keydown', this.onKeyDown);
+        window.removeEventListener('keyup', this.onKeyUp);
+        window.removeEventListener('blur', this.onBlur);
+    }
+
+    private isDown(action: GameAction): boolean {
+        const keys = this.bindings.keys[action] || [];
+        const mouse = this.bindings.mouse[action] || [];
+        const buttons = this.bindings.buttons[action] || [];
+        return keys.some((code) => this.keysDown.has(code))
+            || mouse.some((button) => this.mouseDown.has(button))
+            || buttons.some((index) => this.buttonsDown[index] === true);
+    }
+
+    // Reads the first connected gamepad. Returns its left stick, or null if there is none.
+    private pollGamepad(pressed: GameAction[]): { x: number; y: number } | null {
+        const pads = typeof navigator.getGamepads === 'function' ? navigator.getGamepads() : [];
+        let pad: Gamepad | null = null;
+        for (let i = 0; i < pads.length; i++) {
+            if (pads[i] && pads[i]!.connected) {
+                pad = pads[i];
+                break;
+            }
+        }
+
+        if (!pad) {
+            this.buttonsDown = [];
+            return null;
+        }
+
+        const down = pad.buttons.map((button) => button.pressed);
+        down.forEach((isDown, index) => {
+            if (!isDown || this.buttonsDown[index]) return;
+            actionsFor(this.bindings, 'buttons', index).forEach((action) => {
+                if (pressed.indexOf(action) === -1) pressed.push(action);
+            });
+        });
+        this.buttonsDown = down;
+
+        const x = pad.axes[0] || 0;
+        const y = pad.axes[1] || 0;
+        return Math.sqrt(x * x + y * y) < STICK_DEADZONE ? { x: 0, y: 0 } : { x, y };
+    }
+
+    private moveAim(held: GameAction[], stick: { x: number; y: number } | null, dt: number): void {
+        let dx = stick ? stick.x : 0;
+        let dy = stick ? stick.y : 0;
+        if (held.indexOf('aimLeft') !== -1) dx -= 1;
+        if (held.indexOf('aimRight') !== -1) dx += 1;
+        if (held.indexOf('aimUp') !== -1) dy -= 1;
+        if (held.indexOf('aimDown') !== -1) dy += 1;
+
+        const length = Math.sqrt(dx * dx + dy * dy);
+        if (length > 1) {
+            dx /= length;
+            dy /= length;
+        }
+
+        this.aimX = Math.max(0, Math.min(this.space.width, this.aimX + dx * AIM_SPEED * dt));
+        this.aimY = Math.max(0, Math.min(this.space.height, this.aimY + dy * AIM_SPEED * dt));
+    }
+
+    // Converts client coordinates into game coordinates.
+    private toGame(event: PointerEvent): { x: number; y: number } {
+        return this.space.toVirtual(event.clientX, event.clientY);
+    }
+
+    private onPointerDown = (event: PointerEvent): void => {
+        const point = this.toGame(event);
+        this.aimX = point.x;
+        this.aimY = point.y;
+
+        // Each finger is its own tap; only mice have buttons worth mapping.
+        const actions: GameAction[] = event.pointerType === 'touch'
+            ? ['pop']
+            : actionsFor(this.bindings, 'mouse', event.button);
+
+        if (event.pointerType !== 'touch') this.mouseDown.add(event.button);
+
+        actions.forEach((action) => {
+            this.queuedPresses.push(action);
+            if (POINT_ACTIONS.indexOf(action) !== -1) this.queuedTriggers.push({ action, x: point.x, y: point.y, pointer: true });
+        });
+    };
+
+    private onPointerMove = (event: PointerEvent): void => {
+        const point = this.toGame(event);
+        this.aimX = point.x;
+        this.aimY = point.y;
+    };
+
+    private onPointerUp = (event: PointerEvent): void => {
+        if (event.pointerType !== 'touch') this.mouseDown.delete(event.button);
+    };
+
+    private onContextMenu = (event: Event): void => {
+        event.preventDefault();
+    };
+
+    private onKeyDown = (event: KeyboardEvent): void => {
+        if (isFormControl(event.target)) return;
+
+        const listener = this.keyListener;
+        if (listener && !event.repeat) {
+            event.preventDefault();
+            this.keyListener = null;
+            listener(event.code);
+            return;
+        }
+
+        const actions = actionsFor(this.bindings, 'keys', event.code);
+        if (actions.length === 0) return;
+
+        event.preventDefault();
+        if (event.repeat) return;
+
+        this.keysDown.add(event.code);
+        actions.forEach((action) => this.queuedPresses.push(action));
+    };
+
+    private onKeyUp = (event: KeyboardEvent): void => {
+        this.keysDown.delete(event.code);
+    };
+
+    // Keys released while the window is unfocused never send keyup, so forget them all.
+    private onBlur = (): void => {
+        this.keysDown.clear();
+        this.mouseDown.clear();
+    };
+}
@@ -0,0 +1,50 @@
+import type { GameAction } from './actions';
+
+// Positions in snapshots are rounded to 1/16 px so they survive a round trip through a replay unchanged.
+export const POSITION_PRECISION = 16;
+
+export function quantize(value: number): number {
+    return Math.round(value * POSITION_PRECISION) / POSITION_PRECISION;
+}
+
+export interface ActionTrigger {
+    action: GameAction;
+    x: number;
+    y: number;
+    // Set for clicks and taps, which land where they were aimed. Keyboard and gamepad triggers fire at
+    // the aim cursor. Only menus care; replays don't keep it.
+    pointer?: boolean;
+}
+
+/**
+ * Everything the simulation may know about input for one fixed step.
+ * Plain data, so a run can be replayed by feeding the same snapshots back in.
+ */
+export interface InputSnapshot {
+    tick: number;
+    // Where the player is aiming, in game coordinates.
+    aimX: number;
+    aimY: number;
+    // Actions whose input is currently down.
+    held: GameAction[];
+    // Actions that went down since the previous step.
+    pressed: GameAction[];
+    // Point actions (pops, power-ups) fired since the previous step, in the order they happened.
+    triggers: ActionTrigger[];
+}
+
+export function emptySnapshot(tick = 0): InputSnapshot {
+    return { tick, aimX: 0, aimY: 0, held: [], pressed: [], triggers: [] };
+}
+
+export function isHeld(snapshot: InputSnapshot, action: GameAction): boolean {
+    return snapshot.held.indexOf(action) !== -1;
+}
+
+export function wasPressed(snapshot: InputSnapshot, action: GameAction): boolean {
+    return snapshot.pressed.indexOf(action) !== -1;
+}
+
+export function triggersOf(snapshot: InputSnapshot, action: GameAction): ActionTrigger[] {
+    return snapshot.triggers.filter((trigger) => trigger.action === action);
+}
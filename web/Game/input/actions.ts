@@ -0,0 +1,56 @@
+export type GameAction = 'pop' | 'powerUp' | 'pause' | 'aimLeft' | 'aimRight' | 'aimUp' | 'aimDown';
+
+export const GAME_ACTIONS: GameAction[] = ['pop', 'powerUp', 'pause', 'aimLeft', 'aimRight', 'aimUp', 'aimDown'];
+
+// Actions that happen at a point in the play field: at the pointer for mouse and touch, at the aim cursor otherwise.
+export const POINT_ACTIONS: GameAction[] = ['pop', 'powerUp'];
+
+export type InputDevice = 'keys' | 'mouse' | 'buttons';
+
+/**
+ * Which physical inputs trigger each action.
+ * keys: `KeyboardEvent.code`. mouse: `MouseEvent.button`. buttons: standard-mapping gamepad button index.
+ */
+export interface ActionBindings {
+    keys: Partial<Record<GameAction, string[]>>;
+    mouse: Partial<Record<GameAction, number[]>>;
+    buttons: Partial<Record<GameAction, number[]>>;
+}
+
+export const DEFAULT_BINDINGS: ActionBindings = {
+    keys: {
+        pop: ['Space', 'Enter'],
+        powerUp: ['KeyE', 'ShiftLeft'],
+        pause: ['Escape', 'KeyP'],
+        aimLeft: ['ArrowLeft', 'KeyA'],
+        aimRight: ['ArrowRight', 'KeyD'],
+        aimUp: ['ArrowUp', 'KeyW'],
+        aimDown: ['ArrowDown', 'KeyS'],
+    },
+    mouse: {
+        pop: [0],
+        powerUp: [2],
+    },
+    buttons: {
+        pop: [0, 7],
+        powerUp: [2, 6],
+        pause: [9],
+        aimLeft: [14],
+        aimRight: [15],
+        aimUp: [12],
+        aimDown: [13],
+    },
+};
+
+export function cloneBindings(bindings: ActionBindings): ActionBindings {
+    return JSON.parse(JSON.stringify(bindings));
+}
+
+// Finds every action bound to `code` on `device`.
+export function actionsFor(bindings: ActionBindings, device: InputDevice, code: string | number): GameAction[] {
+    const map = bindings[device] as Partial<Record<GameAction, Array<string | number>>>;
+    return GAME_ACTIONS.filter((action) => {
+        const codes = map[action];
+        return codes !== undefined && codes.indexOf(code) !== -1;
+    });
+}
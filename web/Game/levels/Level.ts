@@ -0,0 +1,90 @@
+import type { DirectorConfig, RubberBand } from '../gameplay/Director';
+
+export const CURRENT_LEVEL_VERSION = 2;
+
+export interface LevelBoard {
+    width: number;
+    height: number;
+    background: string;
+}
+
+/**
+ * A batch of shapes entering the board. `kinds` lists the shape kinds to draw from; each spawned
+ * shape picks one at random. Positions are random unless `x`/`y` pin them.
+ */
+export interface LevelSpawn {
+    kinds: string[];
+    count: number;
+    // Seconds between shapes in this batch.
+    interval: number;
+    x?: number;
+    y?: number;
+}
+
+// A boss entering the board, at (x, y) or the middle of the board.
+export interface LevelBoss {
+    id: string;
+    x?: number;
+    y?: number;
+}
+
+export interface LevelWave {
+    // Seconds after the start of the round.
+    at: number;
+    spawns: LevelSpawn[];
+    boss?: LevelBoss;
+}
+
+export type WinCondition =
+    | { type: 'score'; target: number }
+    | { type: 'pops'; target: number }
+    | { type: 'chain'; size: number }
+    // Every wave has spawned and the board is empty.
+    | { type: 'clear' }
+    // Still going when the time limit runs out.
+    | { type: 'survive' }
+    // Every boss in the level has been beaten.
+    | { type: 'bosses' };
+
+export type LoseCondition =
+    | { type: 'timeUp' }
+    // Too many shapes on the board at once.
+    | { type: 'overflow'; maxShapes: number }
+    | { type: 'misses'; max: number };
+
+/**
+ * Turns on the difficulty director for a level. Anything left out falls back to `DEFAULT_DIRECTOR`,
+ * so `{}` means "the standard ramp".
+ */
+export type LevelDirector = Partial<Omit<DirectorConfig, 'rubberBand'>> & {
+    rubberBand?: Partial<RubberBand>;
+};
+
+/**
+ * Turns on power-up spawns for a level. `pool` lists the power-up ids that may spawn (all of them if
+ * left out) and `interval` the [min, max] seconds between spawns.
+ */
+export interface LevelPowerUps {
+    pool?: string[];
+    interval?: [number, number];
+}
+
+export interface Level {
+    version: typeof CURRENT_LEVEL_VERSION;
+    id: string;
+    name: string;
+    board: LevelBoard;
+    // Seconds. 0 means the round has no time limit.
+    timeLimit: number;
+    // Extra shape kinds, in the same format as shapeKinds.json, available only in this level.
+    kinds: unknown[];
+    // Extra bosses, in the same format as bosses.json, available only in this level.
+    bosses?: unknown[];
+    waves: LevelWave[];
+    // Spawns on top of the scripted waves, ramping with time and the player's performance.
+    director?: LevelDirector;
+    powerUps?: LevelPowerUps;
+    // The round is won as soon as any win condition holds, and lost as soon as any lose condition does.
+    win: WinCondition[];
+    lose: LoseCondition[];
+}
@@ -0,0 +1,134 @@
+import { BossRegistry, bosses } from '../bosses/BossRegistry';
+import { DEFAULT_DIRECTOR, DirectorConfig } from '../gameplay/Director';
+import { powerUps } from '../powerups/PowerUpRegistry';
+import { DEFAULT_POWER_UP_INTERVAL, PowerUpConfig } from '../powerups/PowerUpSystem';
+import type { ShapeKindRegistry } from '../shapes/ShapeKindRegistry';
+import type { Level } from './Level';
+
+// Either a shape drawn from `kinds`, or (with `kinds` empty) the boss `boss`.
+export interface ScheduledSpawn {
+    time: number;
+    kinds: string[];
+    boss?: string;
+    x?: number;
+    y?: number;
+}
+
+// What the level's win and lose conditions are judged on.
+export interface RoundStats {
+    elapsed: number;
+    score: number;
+    pops: number;
+    misses: number;
+    longestChain: number;
+    liveShapes: number;
+    bossesBeaten: number;
+}
+
+export type LevelOutcome = 'won' | 'lost' | null;
+
+/**
+ * The running state of a loaded level: which spawns are due and whether the round is over.
+ * Pure data in, pure data out; the play scene turns spawns into shapes.
+ */
+export class LevelRuntime {
+    readonly kinds: ShapeKindRegistry;
+    readonly bosses: BossRegistry;
+    // Boss waves in the level, for the "bosses" win condition.
+    readonly bossCount: number;
+    private readonly schedule: ScheduledSpawn[] = [];
+    private nextSpawn = 0;
+
+    constructor(readonly level: Level, baseKinds: ShapeKindRegistry, baseBosses: BossRegistry = bosses) {
+        this.kinds = baseKinds.clone();
+        level.kinds.forEach((kind) => this.kinds.register(kind));
+        this.bosses = baseBosses.clone(this.kinds);
+        (level.bosses || []).forEach((boss) => this.bosses.register(boss));
+        // A boss's own kinds are spawned like any other, so they join the level's.
+        this.bosses.all().forEach((boss) => boss.kinds.forEach((kind) => this.kinds.register(kind)));
+
+        this.bossCount = level.waves.filter((wave) => wave.boss).length;
+        level.waves.forEach((wave) => {
+            if (wave.boss) this.schedule.push({ time: wave.at, kinds: [], boss: wave.boss.id, x: wave.boss.x, y: wave.boss.y });
+            wave.spawns.forEach((spawn) => {
+                for (let i = 0; i < spawn.count; i++) {
+                    this.schedule.push({ time: wave.at + i * spawn.interval, kinds: spawn.kinds, x: spawn.x, y: spawn.y });
+                }
+            });
+        });
+        // Stable sort by time, so spawns at the same moment keep the order they were written in.
+        this.schedule = this.schedule
+            .map((spawn, index) => ({ spawn, index }))
+            .sort((a, b) => a.spawn.time - b.spawn.time || a.index - b.index)
+            .map((entry) => entry.spawn);
+    }
+
+    get allSpawned(): boolean {
+        return this.nextSpawn >= this.schedule.length;
+    }
+
+    // The level's director settings merged over the defaults, or null if the level doesn't use one.
+    directorConfig(): DirectorConfig | null {
+        const overrides = this.level.director;
+        if (!overrides) return null;
+
+        return {
+            spawnRate: overrides.spawnRate || DEFAULT_DIRECTOR.spawnRate,
+            speed: overrides.speed || DEFAULT_DIRECTOR.speed,
+            toughness: overrides.toughness || DEFAULT_DIRECTOR.toughness,
+            hazardMix: overrides.hazardMix || DEFAULT_DIRECTOR.hazardMix,
+            pool: overrides.pool || DEFAULT_DIRECTOR.pool,
+            rubberBand: { ...DEFAULT_DIRECTOR.rubberBand, ...overrides.rubberBand },
+        };
+    }
+
+    // Which power-ups spawn and how often, or null if the level has none.
+    powerUpConfig(): PowerUpConfig | null {
+        const settings = this.level.powerUps;
+        if (!settings) return null;
+
+        return {
+            pool: settings.pool || powerUps.ids(),
+            interval: settings.interval || DEFAULT_POWER_UP_INTERVAL,
+        };
+    }
+
+    // Seconds left on the clock, or Infinity if the level has no time limit.
+    timeRemaining(elapsed: number): number {
+        return this.level.timeLimit > 0 ? Math.max(0, this.level.timeLimit - elapsed) : Infinity;
+    }
+
+    // Spawns whose time has come, in order. Each is returned once.
+    due(elapsed: number): ScheduledSpawn[] {
+        const due: ScheduledSpawn[] = [];
+        while (this.nextSpawn < this.schedule.length && this.schedule[this.nextSpawn].time <= elapsed) {
+            due.push(this.schedule[this.nextSpawn++]);
+        }
+        return due;
+    }
+
+    evaluate(stats: RoundStats): LevelOutcome {
+        const level = this.level;
+        const timeUp = level.timeLimit > 0 && stats.elapsed >= level.timeLimit;
+
+        for (let i = 0; i < level.lose.length; i++) {
+            const condition = level.lose[i];
+            if (condition.type === 'overflow' && stats.liveShapes > condition.maxShapes) return 'lost';
+            if (condition.type === 'misses' && stats.misses > condition.max) return 'lost';
+        }
+
+        for (let i = 0; i < level.win.length; i++) {
+            const condition = level.win[i];
+            if (condition.type === 'score' && stats.score >= condition.target) return 'won';
+            if (condition.type === 'pops' && stats.pops >= condition.target) return 'won';
+            if (condition.type === 'chain' && stats.longestChain >= condition.size) return 'won';
+            // A director keeps spawning, so a directed level is never "clear".
+            if (condition.type === 'clear' && !this.level.director && this.allSpawned && stats.liveShapes === 0) return 'won';
+            if (condition.type === 'survive' && timeUp) return 'won';
+            if (condition.type === 'bosses' && this.bossCount > 0 && stats.bossesBeaten >= this.bossCount) return 'won';
+        }
+
+        // Running out of time always ends the round; it only counts as a win through "survive".
+        return timeUp ? 'lost' : null;
+    }
+}
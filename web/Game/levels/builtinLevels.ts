@@ -0,0 +1,50 @@
+import { isRecord } from '../data/readers';
+import arcade from './data/arcade.json';
+import prismShowdown from './data/prism-showdown.json';
+import warmUp from './data/warm-up.json';
+import type { Level } from './Level';
+import { loadLevel } from './loadLevel';
+
+// Raw documents for the levels that ship with the game, in menu order. Level packs append to this.
+const documents: unknown[] = [arcade, warmUp, prismShowdown];
+
+const cache = new Map<string, Level>();
+
+function idOf(document: unknown): string {
+    return isRecord(document) && typeof document.id === 'string' ? document.id : '';
+}
+
+export function builtinLevelIds(): string[] {
+    return documents.map(idOf);
+}
+
+export function getBuiltinLevel(id: string): Level {
+    let level = cache.get(id);
+    if (level) return level;
+
+    const document = documents.filter((doc) => idOf(doc) === id)[0];
+    if (!document) throw new Error(`Unknown level "${id}"`);
+
+    level = loadLevel(document);
+    cache.set(id, level);
+    return level;
+}
+
+/**
+ * Adds the levels of a pack, a `{ name, levels: [...] }` document, after the ones already known.
+ * Each level is validated now so a broken pack fails while loading rather than mid-menu.
+ * Levels whose id is already taken are skipped. Returns the ids that were added.
+ */
+export function registerLevelPack(pack: unknown): string[] {
+    if (!isRecord(pack) || !Array.isArray(pack.levels)) throw new Error('A level pack must have a "levels" array');
+
+    const added: string[] = [];
+    pack.levels.forEach((document: unknown) => {
+        const level = loadLevel(document);
+        if (cache.has(level.id) || builtinLevelIds().indexOf(level.id) !== -1) return;
+        documents.push(document);
+        cache.set(level.id, level);
+        added.push(level.id);
+    });
+    return added;
+}
@@ -0,0 +1,14 @@
+import { SchemaChecker } from '../data/SchemaChecker';
+import type { ShapeKindRegistry } from '../shapes/ShapeKindRegistry';
+import { shapeKinds } from '../shapes/ShapeKindRegistry';
+import type { Level } from './Level';
+import { migrateLevel } from './migrations';
+import { validateLevel } from './validateLevel';
+
+// Migrates and validates a level document. Throws a `ValidationError` listing every problem found.
+export function loadLevel(raw: unknown, registry: ShapeKindRegistry = shapeKinds): Level {
+    const check = new SchemaChecker();
+    const level = validateLevel(migrateLevel(raw), registry, check);
+    check.assert('level');
+    return level;
+}
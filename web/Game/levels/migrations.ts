@@ -0,0 +1,45 @@
+import { isRecord } from '../data/readers';
+import { CURRENT_LEVEL_VERSION } from './Level';
+
+type Migration = (level: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Upgrades from the version in the key to the next one. Never edit a migration once levels have
+ * shipped with its output; add a new one and bump `CURRENT_LEVEL_VERSION` instead.
+ */
+const migrations: Record<number, Migration> = {
+    // v1 kept the board size at the top level, had one shape kind per wave and a single score goal.
+    1: (level) => {
+        const waves = Array.isArray(level.waves) ? level.waves : [];
+        const goal = isRecord(level.goal) ? level.goal : undefined;
+        return {
+            version: 2,
+            id: level.id,
+            name: level.name,
+            board: { width: level.width, height: level.height, background: level.background },
+            timeLimit: level.duration,
+            waves: waves.map((wave) => {
+                const w = isRecord(wave) ? wave : {};
+                return {
+                    at: w.time,
+                    spawns: [{ kinds: [w.kind], count: w.count, interval: w.interval }],
+                };
+            }),
+            win: goal && goal.score !== undefined ? [{ type: 'score', target: goal.score }] : [{ type: 'survive' }],
+            lose: [{ type: 'timeUp' }],
+        };
+    },
+};
+
+// Brings a raw level document up to the current version. Leaves unknown or newer versions alone for validation to report.
+export function migrateLevel(raw: unknown): unknown {
+    if (!isRecord(raw)) return raw;
+
+    let level = raw;
+    let version = typeof level.version === 'number' ? level.version : 1;
+    while (version < CURRENT_LEVEL_VERSION && migrations[version]) {
+        level = migrations[version](level);
+        version++;
+    }
+    return level;
+}
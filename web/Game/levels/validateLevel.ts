@@ -0,0 +1,257 @@
+import { parseBoss } from '../bosses/Boss';
+import { bosses } from '../bosses/BossRegistry';
+import { SchemaChecker } from '../data/SchemaChecker';
+import { DEFAULT_DIRECTOR, DirectorPoolEntry } from '../gameplay/Director';
+import type { Keyframes } from '../gameplay/keyframes';
+import { powerUps } from '../powerups/PowerUpRegistry';
+import { parseShapeKind } from '../shapes/ShapeKind';
+import type { ShapeKindRegistry } from '../shapes/ShapeKindRegistry';
+import {
+    CURRENT_LEVEL_VERSION,
+    Level,
+    LevelBoss,
+    LevelDirector,
+    LevelPowerUps,
+    LevelSpawn,
+    LevelWave,
+    LoseCondition,
+    WinCondition,
+} from './Level';
+
+const WIN_TYPES: Array<WinCondition['type']> = ['score', 'pops', 'chain', 'clear', 'survive', 'bosses'];
+const LOSE_TYPES: Array<LoseCondition['type']> = ['timeUp', 'overflow', 'misses'];
+
+function checkSpawn(check: SchemaChecker, value: unknown, path: string, knownKinds: (id: string) => boolean): LevelSpawn {
+    const raw = check.object(value, path);
+    const kinds = check.array(raw, 'kinds', path);
+    if (kinds.length === 0) check.fail(`${path}.kinds`, 'must list at least one shape kind');
+    kinds.forEach((kind, index) => {
+        if (typeof kind !== 'string') check.fail(`${path}.kinds[${index}]`, 'must be a string');
+        else if (!knownKinds(kind)) check.fail(`${path}.kinds[${index}]`, `unknown shape kind "${kind}"`);
+    });
+
+    const spawn: LevelSpawn = {
+        kinds: kinds.filter((kind): kind is string => typeof kind === 'string'),
+        count: check.number(raw, 'count', path, { min: 1, integer: true }, 1),
+        interval: check.number(raw, 'interval', path, { min: 0 }, 0),
+    };
+    if (raw.x !== undefined) spawn.x = check.number(raw, 'x', path);
+    if (raw.y !== undefined) spawn.y = check.number(raw, 'y', path);
+    return spawn;
+}
+
+function checkBoss(check: SchemaChecker, value: unknown, path: string, knownBosses: (id: string) => boolean): LevelBoss {
+    const raw = check.object(value, path);
+    const boss: LevelBoss = { id: check.string(raw, 'id', path) };
+    if (boss.id && !knownBosses(boss.id)) check.fail(`${path}.id`, `unknown boss "${boss.id}"`);
+    if (raw.x !== undefined) boss.x = check.number(raw, 'x', path);
+    if (raw.y !== undefined) boss.y = check.number(raw, 'y', path);
+    return boss;
+}
+
+function checkWave(
+    check: SchemaChecker,
+    value: unknown,
+    path: string,
+    knownKinds: (id: string) => boolean,
+    knownBosses: (id: string) => boolean,
+): LevelWave {
+    const raw = check.object(value, path);
+    const wave: LevelWave = {
+        at: check.number(raw, 'at', path, { min: 0 }),
+        // A boss wave needs no other spawns.
+        spawns: check.array(raw, 'spawns', path, raw.boss !== undefined).map((spawn, index) => checkSpawn(check, spawn, `${path}.spawns[${index}]`, knownKinds)),
+    };
+    if (raw.boss !== undefined) wave.boss = checkBoss(check, raw.boss, `${path}.boss`, knownBosses);
+    return wave;
+}
+
+function checkKeyframes(check: SchemaChecker, value: unknown, path: string): Keyframes {
+    if (!Array.isArray(value) || value.length === 0) {
+        check.fail(path, 'must be a non-empty array of [seconds, value] pairs');
+        return [];
+    }
+
+    const keys: Keyframes = [];
+    value.forEach((key, index) => {
+        if (!Array.isArray(key) || key.length !== 2 || typeof key[0] !== 'number' || typeof key[1] !== 'number') {
+            check.fail(`${path}[${index}]`, 'must be a [seconds, value] pair');
+            return;
+        }
+        if (keys.length > 0 && key[0] < keys[keys.length - 1][0]) check.fail(`${path}[${index}]`, 'must not come before the previous key');
+        keys.push([key[0], key[1]]);
+    });
+    return keys;
+}
+
+function checkDirector(check: SchemaChecker, value: unknown, path: string, knownKinds: (id: string) => boolean): LevelDirector {
+    const raw = check.object(value, path);
+    const director: LevelDirector = {};
+
+    if (raw.spawnRate !== undefined) director.spawnRate = checkKeyframes(check, raw.spawnRate, `${path}.spawnRate`);
+    if (raw.speed !== undefined) director.speed = checkKeyframes(check, raw.speed, `${path}.speed`);
+    if (raw.toughness !== undefined) director.toughness = checkKeyframes(check, raw.toughness, `${path}.toughness`);
+    if (raw.hazardMix !== undefined) director.hazardMix = checkKeyframes(check, raw.hazardMix, `${path}.hazardMix`);
+
+    if (raw.pool !== undefined) {
+        const pool = check.array(raw, 'pool', path);
+        if (pool.length === 0) check.fail(`${path}.pool`, 'must list at least one shape kind');
+        director.pool = pool.map((value, index): DirectorPoolEntry => {
+            const at = `${path}.pool[${index}]`;
+            const entry = check.object(value, at);
+            const kind = check.string(entry, 'kind', at);
+            if (kind && !knownKinds(kind)) check.fail(`${at}.kind`, `unknown shape kind "${kind}"`);
+            return {
+                kind,
+                weight: check.number(entry, 'weight', at, { min: 0 }, 1),
+                hazard: entry.hazard === true,
+            };
+        });
+    }
+
+    if (raw.rubberBand !== undefined) {
+        const at = `${path}.rubberBand`;
+        const band = check.object(raw.rubberBand, at);
+        director.rubberBand = {};
+        if (band.min !== undefined) director.rubberBand.min = check.number(band, 'min', at, { min: -1, max: 0 });
+        if (band.max !== undefined) director.rubberBand.max = check.number(band, 'max', at, { min: 0 });
+        if (band.responsiveness !== undefined) director.rubberBand.responsiveness = check.number(band, 'responsiveness', at, { min: 0 });
+        if (band.targetAccuracy !== undefined) director.rubberBand.targetAccuracy = check.number(band, 'targetAccuracy', at, { min: 0, max: 1 });
+        if (band.targetPopsPerSecond !== undefined) director.rubberBand.targetPopsPerSecond = check.number(band, 'targetPopsPerSecond', at, { min: 0 });
+    }
+
+    return director;
+}
+
+function checkPowerUps(check: SchemaChecker, value: unknown, path: string): LevelPowerUps {
+    const raw = check.object(value, path);
+    const settings: LevelPowerUps = {};
+
+    if (raw.pool !== undefined) {
+        const pool = check.array(raw, 'pool', path);
+        pool.forEach((id, index) => {
+            if (typeof id !== 'string') check.fail(`${path}.pool[${index}]`, 'must be a string');
+            else if (!powerUps.has(id)) check.fail(`${path}.pool[${index}]`, `unknown power-up "${id}"`);
+        });
+        settings.pool = pool.filter((id): id is string => typeof id === 'string');
+    }
+
+    if (raw.interval !== undefined) {
+        const interval = raw.interval;
+        if (!Array.isArray(interval) || interval.length !== 2 || typeof interval[0] !== 'number' || typeof interval[1] !== 'number') {
+            check.fail(`${path}.interval`, 'must be a [min, max] pair of seconds');
+        } else if (interval[0] <= 0 || interval[1] < interval[0]) {
+            check.fail(`${path}.interval`, 'must be positive, with min no greater than max');
+        } else {
+            settings.interval = [interval[0], interval[1]];
+        }
+    }
+
+    return settings;
+}
+
+function checkWin(check: SchemaChecker, value: unknown, path: string): WinCondition {
+    const raw = check.object(value, path);
+    const type = check.oneOf(raw, 'type', path, WIN_TYPES);
+    // Already reported; the placeholder is never used because the level fails validation.
+    if (!type) return { type: 'clear' };
+    switch (type) {
+        case 'score': return { type, target: check.number(raw, 'target', path, { min: 1 }) };
+        case 'pops': return { type, target: check.number(raw, 'target', path, { min: 1, integer: true }) };
+        case 'chain': return { type, size: check.number(raw, 'size', path, { min: 2, integer: true }) };
+        case 'clear': return { type };
+        case 'survive': return { type };
+        case 'bosses': return { type };
+    }
+}
+
+function checkLose(check: SchemaChecker, value: unknown, path: string): LoseCondition {
+    const raw = check.object(value, path);
+    const type = check.oneOf(raw, 'type', path, LOSE_TYPES);
+    if (!type) return { type: 'timeUp' };
+    switch (type) {
+        case 'timeUp': return { type };
+        case 'overflow': return { type, maxShapes: check.number(raw, 'maxShapes', path, { min: 1, integer: true }) };
+        case 'misses': return { type, max: check.number(raw, 'max', path, { min: 0, integer: true }) };
+    }
+}
+
+/**
+ * Checks a level document that has already been migrated to the current version.
+ * Every problem is recorded on `check` with its path; the returned level is only safe to use if `check.ok`.
+ */
+export function validateLevel(value: unknown, registry: ShapeKindRegistry, check = new SchemaChecker()): Level {
+    const path = 'level';
+    const raw = check.object(value, path);
+
+    if (raw.version !== CURRENT_LEVEL_VERSION) {
+        check.fail(`${path}.version`, `must be ${CURRENT_LEVEL_VERSION} (got ${JSON.stringify(raw.version)})`);
+    }
+
+    // Inline kinds are checked first so waves may refer to them.
+    const kinds = check.array(raw, 'kinds', path, true);
+    const inlineIds: string[] = [];
+    kinds.forEach((kind, index) => {
+        try {
+            inlineIds.push(parseShapeKind(kind, `${path}.kinds[${index}]`).id);
+        } catch (error) {
+            check.fail(`${path}.kinds[${index}]`, (error as Error).message);
+        }
+    });
+    const knownKinds = (id: string) => registry.has(id) || inlineIds.indexOf(id) !== -1;
+
+    // Inline bosses may use the level's inline kinds, and waves may call them in.
+    const levelBosses = check.array(raw, 'bosses', path, true);
+    const inlineBosses: string[] = [];
+    levelBosses.forEach((boss, index) => {
+        try {
+            inlineBosses.push(parseBoss(boss, `${path}.bosses[${index}]`, knownKinds).id);
+        } catch (error) {
+            check.fail(`${path}.bosses[${index}]`, (error as Error).message);
+        }
+    });
+    const knownBosses = (id: string) => bosses.has(id) || inlineBosses.indexOf(id) !== -1;
+
+    const boardRaw = check.object(raw.board, `${path}.board`);
+    const timeLimit = check.number(raw, 'timeLimit', path, { min: 0 }, 0);
+
+    const waves = check.array(raw, 'waves', path).map((wave, index) => checkWave(check, wave, `${path}.waves[${index}]`, knownKinds, knownBosses));
+    const director = raw.director !== undefined ? checkDirector(check, raw.director, `${path}.director`, knownKinds) : undefined;
+    const powerUpSettings = raw.powerUps !== undefined ? checkPowerUps(check, raw.powerUps, `${path}.powerUps`) : undefined;
+    const win = check.array(raw, 'win', path).map((condition, index) => checkWin(check, condition, `${path}.win[${index}]`));
+    const lose = check.array(raw, 'lose', path, true).map((condition, index) => checkLose(check, condition, `${path}.lose[${index}]`));
+
+    // Without a director, the pool's default kinds are never needed, so only check them when it's on.
+    if (director && !director.pool) {
+        DEFAULT_DIRECTOR.pool.forEach((entry) => {
+            if (!knownKinds(entry.kind)) check.fail(`${path}.director.pool`, `default pool needs shape kind "${entry.kind}"`);
+        });
+    }
+
+    if (win.length === 0) check.fail(`${path}.win`, 'must list at least one win condition');
+    if (timeLimit === 0 && win.some((condition) => condition.type === 'survive')) {
+        check.fail(`${path}.win`, '"survive" needs a timeLimit');
+    }
+    if (win.some((condition) => condition.type === 'bosses') && !waves.some((wave) => wave.boss)) {
+        check.fail(`${path}.win`, '"bosses" needs at least one boss wave');
+    }
+
+    return {
+        version: CURRENT_LEVEL_VERSION,
+        id: check.string(raw, 'id', path),
+        name: check.string(raw, 'name', path),
+        board: {
+            width: check.number(boardRaw, 'width', `${path}.board`, { min: 160, max: 4096, integer: true }),
+            height: check.number(boardRaw, 'height', `${path}.board`, { min: 120, max: 4096, integer: true }),
+            background: check.string(boardRaw, 'background', `${path}.board`, '#1099bb'),
+        },
+        timeLimit,
+        kinds,
+        bosses: raw.bosses !== undefined ? levelBosses : undefined,
+        waves,
+        director,
+        powerUps: powerUpSettings,
+        win,
+        lose,
+    };
+}
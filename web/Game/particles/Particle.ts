@@ -0,0 +1,56 @@
+import { Graphics } from 'pixi.js';
+import { Curve, sampleCurve } from './curve';
+
+// A single cosmetic particle. Particles never affect gameplay, so they step without interpolation.
+export class Particle {
+    x = 0;
+    y = 0;
+    vx = 0;
+    vy = 0;
+    rotation = 0;
+    spin = 0;
+    gravity = 0;
+    drag = 0;
+    age = 0;
+    lifetime = 1;
+    baseScale = 1;
+    alphaCurve: Curve = [1, 0];
+    scaleCurve: Curve = [1];
+
+    constructor(readonly display: Graphics) {}
+
+    // Readies a pooled particle for reuse: empties its graphics and takes it off the stage.
+    reset(): void {
+        this.display.removeFromParent();
+        this.display.clear();
+        this.x = this.y = this.vx = this.vy = 0;
+        this.rotation = this.spin = this.gravity = this.drag = this.age = 0;
+        this.lifetime = 1;
+        this.baseScale = 1;
+        this.alphaCurve = [1, 0];
+        this.scaleCurve = [1];
+    }
+
+    get alive(): boolean {
+        return this.age < this.lifetime;
+    }
+
+    step(dt: number): void {
+        this.age += dt;
+
+        const damping = Math.max(0, 1 - this.drag * dt);
+        this.vx *= damping;
+        this.vy = this.vy * damping + this.gravity * dt;
+        this.x += this.vx * dt;
+        this.y += this.vy * dt;
+        this.rotation += this.spin * dt;
+
+        const t = this.age / this.lifetime;
+        const display = this.display;
+        display.x = this.x;
+        display.y = this.y;
+        display.rotation = this.rotation;
+        display.alpha = sampleCurve(this.alphaCurve, t);
+        display.scale.set(this.baseScale * sampleCurve(this.scaleCurve, t));
+    }
+}
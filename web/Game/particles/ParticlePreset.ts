@@ -0,0 +1,70 @@
+import { isRecord, readNumber, readNumberList, readRange, readString } from '../data/readers';
+import type { Curve } from './curve';
+
+// shards: the shape's own polygon split into wedges. sparks: small dots. ring: an expanding shockwave.
+export type EmitterType = 'shards' | 'sparks' | 'ring';
+
+export interface EmitterConfig {
+    type: EmitterType;
+    // Particles to emit. For shards, 0 means one wedge per edge of the shape.
+    count: number;
+    // Seconds each particle lives, picked from [min, max].
+    lifetime: [number, number];
+    // Launch speed in px/s, picked from [min, max].
+    speed: [number, number];
+    // Downward acceleration in px/s².
+    gravity: number;
+    // Fraction of velocity lost per second.
+    drag: number;
+    spin: [number, number];
+    // Spark diameter in px, or a ring's final radius as a multiple of the shape's radius.
+    size: number;
+    alpha: Curve;
+    scale: Curve;
+    // Overrides the colour taken from the shape's fill.
+    color: string;
+}
+
+// A preset is the set of emitters fired together when a shape is destroyed.
+export type ParticlePreset = EmitterConfig[];
+
+const TYPES: EmitterType[] = ['shards', 'sparks', 'ring'];
+
+const DEFAULTS: Omit<EmitterConfig, 'type'> = {
+    count: 0,
+    lifetime: [0.4, 0.8],
+    speed: [60, 140],
+    gravity: 0,
+    drag: 0,
+    spin: [0, 0],
+    size: 3,
+    alpha: [1, 0],
+    scale: [1, 1],
+    color: '',
+};
+
+export function parseEmitterConfig(raw: unknown, path: string): EmitterConfig {
+    if (!isRecord(raw)) throw new Error(`${path} must be an object`);
+
+    const type = raw.type as EmitterType;
+    if (TYPES.indexOf(type) === -1) throw new Error(`${path}.type must be one of ${TYPES.join(', ')}`);
+
+    return {
+        type,
+        count: Math.max(0, Math.round(readNumber(raw, 'count', DEFAULTS.count, path))),
+        lifetime: readRange(raw, 'lifetime', DEFAULTS.lifetime, path),
+        speed: readRange(raw, 'speed', DEFAULTS.speed, path),
+        gravity: readNumber(raw, 'gravity', DEFAULTS.gravity, path),
+        drag: readNumber(raw, 'drag', DEFAULTS.drag, path),
+        spin: readRange(raw, 'spin', DEFAULTS.spin, path),
+        size: readNumber(raw, 'size', DEFAULTS.size, path),
+        alpha: readNumberList(raw, 'alpha', DEFAULTS.alpha, path),
+        scale: readNumberList(raw, 'scale', DEFAULTS.scale, path),
+        color: readString(raw, 'color', DEFAULTS.color, path),
+    };
+}
+
+export function parseParticlePreset(raw: unknown, path: string): ParticlePreset {
+    if (!Array.isArray(raw)) throw new Error(`${path} must be an array of emitters`);
+    return raw.map((entry, index) => parseEmitterConfig(entry, `${path}[${index}]`));
+}
@@ -0,0 +1,34 @@
+import { isRecord } from '../data/readers';
+import particlePresetData from './particlePresets.json';
+import { parseParticlePreset, ParticlePreset } from './ParticlePreset';
+
+export class ParticlePresetRegistry {
+    private readonly presets = new Map<string, ParticlePreset>();
+
+    register(id: string, raw: unknown): ParticlePreset {
+        const preset = parseParticlePreset(raw, `particlePreset.${id}`);
+        this.presets.set(id, preset);
+        return preset;
+    }
+
+    // Registers every entry of an { id: emitters[] } object.
+    registerAll(raw: unknown): void {
+        if (!isRecord(raw)) throw new Error('particlePresets must be an object keyed by preset id');
+        Object.keys(raw).forEach((id) => this.register(id, raw[id]));
+    }
+
+    has(id: string): boolean {
+        return this.presets.has(id);
+    }
+
+    // Falls back to the default preset so a typo in a shape kind doesn't crash a run.
+    get(id: string): ParticlePreset {
+        const preset = this.presets.get(id) || this.presets.get('default');
+        if (!preset) throw new Error(`Unknown particle preset "${id}"`);
+        return preset;
+    }
+}
+
+// The built-in presets shipped with the game.
+export const particlePresets = new ParticlePresetRegistry();
+particlePresets.registerAll(particlePresetData);
@@ -0,0 +1,151 @@
+import { Container, Graphics } from 'pixi.js';
+import { Pool } from '../core/Pool';
+import { randomBetween, RandomFn } from '../shapes/geometry';
+import { PaletteId, shapeFill } from '../shapes/palettes';
+import type { Shape } from '../shapes/Shape';
+import { Particle } from './Particle';
+import type { EmitterConfig, ParticlePreset } from './ParticlePreset';
+
+// Shared by every particle system, so a new round reuses the previous round's particles.
+const particlePool = new Pool<Particle>({
+    name: 'particles',
+    create: () => new Particle(new Graphics()),
+    reset: (particle) => particle.reset(),
+    dispose: (particle) => particle.display.destroy(),
+    // The largest particle budget; no system ever has more out than that.
+    maxFree: 600,
+    leakWarning: 600,
+});
+
+/**
+ * Owns every live particle and the container they are drawn in.
+ *
+ * `maxParticles` is a hard budget: once it is reached, further emitters are trimmed so large
+ * chain reactions degrade gracefully instead of dropping frames. Particles come from a shared pool
+ * and go back to it when they die.
+ */
+export class ParticleSystem {
+    readonly container = new Container();
+    // Colours shapes' debris the way their shapes are drawn.
+    palette: PaletteId = 'default';
+    private readonly particles: Particle[] = [];
+
+    constructor(private readonly maxParticles: number, private readonly random: RandomFn) {
+        particlePool.prewarm(maxParticles);
+    }
+
+    get count(): number {
+        return this.particles.length;
+    }
+
+    // Bursts `shape` using every emitter in `preset`.
+    explode(shape: Shape, preset: ParticlePreset): void {
+        for (let i = 0; i < preset.length; i++) {
+            this.emit(shape, preset[i]);
+        }
+    }
+
+    update(dt: number): void {
+        for (let i = this.particles.length - 1; i >= 0; i--) {
+            const particle = this.particles[i];
+            particle.step(dt);
+            if (!particle.alive) {
+                this.particles.splice(i, 1);
+                particlePool.release(particle);
+            }
+        }
+    }
+
+    clear(): void {
+        this.particles.forEach((particle) => particlePool.release(particle));
+        this.particles.length = 0;
+        particlePool.checkLeaks();
+    }
+
+    private emit(shape: Shape, config: EmitterConfig): void {
+        const budget = this.maxParticles - this.particles.length;
+        if (budget <= 0) return;
+
+        if (config.type === 'shards') this.emitShards(shape, config, budget);
+        else if (config.type === 'sparks') this.emitSparks(shape, config, budget);
+        else this.emitRings(shape, config, budget);
+    }
+
+    // Splits the shape's polygon into wedges from its centre and flings each one outwards.
+    private emitShards(shape: Shape, config: EmitterConfig, budget: number): void {
+        const outline = shape.outline;
+        const corners = outline.length / 2;
+        const count = Math.min(config.count > 0 ? config.count : corners, corners, budget);
+        const fill = shapeFill(shape.kind, this.palette);
+        const cos = Math.cos(shape.rotation);
+        const sin = Math.sin(shape.rotation);
+
+        for (let i = 0; i < count; i++) {
+            const a = Math.floor((i * corners) / count);
+            const b = Math.floor(((i + 1) * corners) / count) % corners;
+            const ax = outline[a * 2] * cos - outline[a * 2 + 1] * sin;
+            const ay = outline[a * 2] * sin + outline[a * 2 + 1] * cos;
+            const bx = outline[b * 2] * cos - outline[b * 2 + 1] * sin;
+            const by = outline[b * 2] * sin + outline[b * 2 + 1] * cos;
+
+            // Draw the wedge around its own centroid so it spins in place.
+            const cx = (ax + bx) / 3;
+            const cy = (ay + by) / 3;
+            const color = config.color || fill[i % fill.length];
+            const length = Math.sqrt(cx * cx + cy * cy) || 1;
+            const particle = this.launch(config, shape.x + cx, shape.y + cy, cx / length, cy / length);
+            particle.display
+                .poly([-cx, -cy, ax - cx, ay - cy, bx - cx, by - cy], true)
+                .fill(color)
+                .stroke({ color: shape.kind.stroke.color, width: 1 });
+        }
+    }
+
+    private emitSparks(shape: Shape, config: EmitterConfig, budget: number): void {
+        const count = Math.min(config.count, budget);
+        const fill = shapeFill(shape.kind, this.palette);
+        const color = config.color || fill[fill.length - 1];
+
+        for (let i = 0; i < count; i++) {
+            const angle = this.random() * Math.PI * 2;
+            const particle = this.launch(config, shape.x, shape.y, Math.cos(angle), Math.sin(angle));
+            particle.display.circle(0, 0, config.size / 2).fill(color);
+        }
+    }
+
+    private emitRings(shape: Shape, config: EmitterConfig, budget: number): void {
+        const count = Math.min(Math.max(config.count, 1), budget);
+        const fill = shapeFill(shape.kind, this.palette);
+        const color = config.color || fill[fill.length - 1];
+        const radius = shape.radius * config.size;
+
+        for (let i = 0; i < count; i++) {
+            const particle = this.launch(config, shape.x, shape.y, 0, 0);
+            particle.display.circle(0, 0, radius).stroke({ color, width: 3 });
+            // Stagger follow-up rings so they read as separate waves.
+            particle.age = -i * 0.08;
+        }
+    }
+
+    // Takes a particle from the pool and sets it moving; the caller draws into its empty graphics.
+    private launch(config: EmitterConfig, x: number, y: number, dirX: number, dirY: number): Particle {
+        const particle = particlePool.acquire();
+        const speed = randomBetween(config.speed, this.random);
+
+        particle.x = x;
+        particle.y = y;
+        particle.vx = dirX * speed;
+        particle.vy = dirY * speed;
+        particle.gravity = config.gravity;
+        particle.drag = config.drag;
+        particle.spin = randomBetween(config.spin, this.random);
+        particle.lifetime = randomBetween(config.lifetime, this.random);
+        particle.alphaCurve = config.alpha;
+        particle.scaleCurve = config.scale;
+        particle.step(0);
+
+        this.particles.push(particle);
+        this.container.addChild(particle.display);
+        return particle;
+    }
+}
@@ -0,0 +1,17 @@
+/**
+ * A curve is a list of values spread evenly over a particle's life: [1, 0] fades linearly,
+ * [0, 1, 0] rises then falls. A single value is constant.
+ */
+export type Curve = number[];
+
+// Samples `curve` at `t` in [0, 1], interpolating linearly between its keys.
+export function sampleCurve(curve: Curve, t: number): number {
+    if (curve.length === 1) return curve[0];
+    if (t <= 0) return curve[0];
+    if (t >= 1) return curve[curve.length - 1];
+
+    const position = t * (curve.length - 1);
+    const index = Math.floor(position);
+    const fraction = position - index;
+    return curve[index] + (curve[index + 1] - curve[index]) * fraction;
+}
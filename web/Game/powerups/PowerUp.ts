@@ -0,0 +1,103 @@
+import { isRecord, readNumber, readString } from '../data/readers';
+import { parseShapeKind, ShapeKind } from '../shapes/ShapeKind';
+import type { PowerUpEffectRegistry } from './PowerUpRegistry';
+
+/**
+ * What happens when a power-up is collected while the same one is still running.
+ * refresh: the timer starts over. extend: the duration is added on, up to `maxDuration`.
+ * stack: another stack is added, up to `maxStacks`, and the timer starts over. ignore: nothing.
+ */
+export type PowerUpStacking = 'refresh' | 'extend' | 'stack' | 'ignore';
+
+/**
+ * A collectible power-up, as plain data. Its behaviour comes from the effect registered under
+ * `effect`, so new power-ups are added to `powerUps.json` and, if they need new behaviour, one effect.
+ */
+export interface PowerUp {
+    id: string;
+    // Shown in the HUD tray.
+    label: string;
+    effect: string;
+    // Seconds the effect runs for. 0 means it happens once, the moment it's collected.
+    duration: number;
+    stacking: PowerUpStacking;
+    maxStacks: number;
+    maxDuration: number;
+    // Relative chance of this power-up being picked when one spawns.
+    weight: number;
+    // Seconds the collectible stays on the board before it fades away uncollected.
+    lifetime: number;
+    // Tray icon and board indicator colour.
+    color: string;
+    // The collectible's look. Its id is `powerUp.<id>`; it scores nothing and sets off no blast by default.
+    shape: ShapeKind;
+    // Tuning read by the effect, e.g. a bomb's radius. Has at least the effect's `requiredParams`.
+    params: Record<string, number>;
+}
+
+const STACKING: PowerUpStacking[] = ['refresh', 'extend', 'stack', 'ignore'];
+
+const SHAPE_DEFAULTS = {
+    geometry: 'circle',
+    radius: 16,
+    points: 0,
+    speed: [30, 50],
+    explosion: 'sparkly',
+    blast: { radius: 0, delay: 0, damage: 0, falloff: 0 },
+};
+
+/**
+ * Checks a power-up loaded from data and fills in defaults for anything left out. Its effect must be
+ * one of `effects`, and its params must include every one that effect reads.
+ */
+export function parsePowerUp(raw: unknown, effects: PowerUpEffectRegistry, path = 'powerUp'): PowerUp {
+    if (!isRecord(raw)) throw new Error(`${path} must be an object`);
+    if (typeof raw.id !== 'string' || raw.id === '') throw new Error(`${path}.id must be a non-empty string`);
+
+    const stacking = readString(raw, 'stacking', 'refresh', path) as PowerUpStacking;
+    if (STACKING.indexOf(stacking) === -1) throw new Error(`${path}.stacking must be one of ${STACKING.join(', ')}`);
+
+    const color = readString(raw, 'color', '#ffffff', path);
+    if (raw.shape !== undefined && !isRecord(raw.shape)) throw new Error(`${path}.shape must be an object`);
+    const shape = parseShapeKind(
+        { ...SHAPE_DEFAULTS, fill: ['#ffffff', color], ...(raw.shape as Record<string, unknown> | undefined), id: `powerUp.${raw.id}` },
+        `${path}.shape`,
+    );
+
+    const params: Record<string, number> = {};
+    if (raw.params !== undefined) {
+        if (!isRecord(raw.params)) throw new Error(`${path}.params must be an object`);
+        const rawParams = raw.params;
+        Object.keys(rawParams).forEach((key) => (params[key] = readNumber(rawParams, key, 0, `${path}.params`)));
+    }
+
+    const effect = readString(raw, 'effect', raw.id, path);
+    if (!effects.has(effect)) throw new Error(`${path}.effect "${effect}" is not a registered effect`);
+    (effects.get(effect).requiredParams || []).forEach((key) => {
+        if (params[key] === undefined) throw new Error(`${path}.params.${key} is required by the "${effect}" effect`);
+    });
+
+    const duration = readNumber(raw, 'duration', 0, path);
+    const powerUp: PowerUp = {
+        id: raw.id,
+        label: readString(raw, 'label', raw.id, path),
+        effect,
+        duration,
+        stacking,
+        maxStacks: Math.round(readNumber(raw, 'maxStacks', 1, path)),
+        maxDuration: readNumber(raw, 'maxDuration', duration, path),
+        weight: readNumber(raw, 'weight', 1, path),
+        lifetime: readNumber(raw, 'lifetime', 8, path),
+        color,
+        shape,
+        params,
+    };
+
+    if (powerUp.duration < 0) throw new Error(`${path}.duration must not be negative`);
+    if (powerUp.maxStacks < 1) throw new Error(`${path}.maxStacks must be at least 1`);
+    if (powerUp.maxDuration < powerUp.duration) throw new Error(`${path}.maxDuration must be at least the duration`);
+    if (powerUp.weight < 0) throw new Error(`${path}.weight must not be negative`);
+    if (powerUp.lifetime <= 0) throw new Error(`${path}.lifetime must be positive`);
+
+    return powerUp;
+}
@@ -0,0 +1,72 @@
+import type { CollisionWorld } from '../collision/CollisionWorld';
+import type { Shape } from '../shapes/Shape';
+import type { PowerUp } from './PowerUp';
+
+// A power-up that has been collected and is still running.
+export interface ActivePowerUp {
+    readonly powerUp: PowerUp;
+    // Where it was collected, in board coordinates.
+    readonly x: number;
+    readonly y: number;
+    // Seconds left, and the full length of the current run (for the HUD timer).
+    remaining: number;
+    duration: number;
+    stacks: number;
+    // Seconds since it was first collected.
+    elapsed: number;
+}
+
+// Knobs the running power-ups turn each step. Every step starts from the neutral values.
+export interface PowerUpModifiers {
+    // Multiplies how far shapes move and spin per step.
+    shapeTimeScale: number;
+    // Multiplies every point scored.
+    scoreScale: number;
+    // Extra reach around the pointer when hit-testing pops, in px.
+    popReach: number;
+}
+
+export function neutralModifiers(): PowerUpModifiers {
+    return { shapeTimeScale: 1, scoreScale: 1, popReach: 0 };
+}
+
+// The parts of a round an effect may touch.
+export interface PowerUpContext {
+    readonly boardWidth: number;
+    readonly boardHeight: number;
+    // Reflects the shapes' positions at the start of the step.
+    readonly collisions: CollisionWorld<Shape>;
+    readonly shapes: readonly Shape[];
+    // Damages a shape on the power-up's behalf. Destroyed shapes score and set off chains like any other.
+    damage(shape: Shape, amount: number): void;
+}
+
+/**
+ * What an effect may draw with: the few pixi `Graphics` calls it needs, so effects, which run inside the
+ * simulation, don't depend on the renderer.
+ */
+export interface PowerUpCanvas {
+    rect(x: number, y: number, width: number, height: number): this;
+    circle(x: number, y: number, radius: number): this;
+    fill(style: { color: string | number; alpha?: number }): this;
+    stroke(style: { color: string | number; width?: number; alpha?: number }): this;
+}
+
+/**
+ * The behaviour behind a power-up, registered under an id that power-up data refers to.
+ * Every hook is optional. Hooks run inside the simulation step, so they must be deterministic.
+ */
+export interface PowerUpEffect {
+    // Names in a power-up's `params` the effect reads. Power-ups using the effect must give every one.
+    readonly requiredParams?: readonly string[];
+    // Collected. For timed power-ups, only the first collection of a run; later ones follow the stacking rule.
+    activate?(context: PowerUpContext, active: ActivePowerUp): void;
+    // Once per step while running.
+    step?(context: PowerUpContext, active: ActivePowerUp, dt: number): void;
+    // Once per step while running, to adjust the round's modifiers.
+    modify?(modifiers: PowerUpModifiers, active: ActivePowerUp): void;
+    // The timer ran out.
+    expire?(context: PowerUpContext, active: ActivePowerUp): void;
+    // Draws anything the effect shows on the board, in board coordinates. `graphics` is shared and already cleared.
+    draw?(graphics: PowerUpCanvas, active: ActivePowerUp, boardWidth: number, boardHeight: number): void;
+}
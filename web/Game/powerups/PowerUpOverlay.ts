@@ -0,0 +1,28 @@
+import { Graphics } from 'pixi.js';
+import { PaletteId, paletteColor } from '../shapes/palettes';
+import type { ActivePowerUp } from './PowerUpEffect';
+import { PowerUpRegistry, powerUps } from './PowerUpRegistry';
+
+const FRAME_WIDTH = 4;
+
+// Draws running power-ups on the board: a frame in each one's colour around the edge, plus whatever its effect draws.
+export class PowerUpOverlay {
+    readonly graphics = new Graphics();
+    palette: PaletteId = 'default';
+
+    constructor(private readonly registry: PowerUpRegistry = powerUps) {}
+
+    render(active: readonly ActivePowerUp[], boardWidth: number, boardHeight: number): void {
+        const graphics = this.graphics.clear();
+
+        active.forEach((power, index) => {
+            const inset = FRAME_WIDTH * (index + 0.5);
+            graphics
+                .rect(inset, inset, boardWidth - inset * 2, boardHeight - inset * 2)
+                .stroke({ color: paletteColor(this.palette, power.powerUp.shape.id, power.powerUp.color), width: FRAME_WIDTH, alpha: 0.6 });
+
+            const effect = this.registry.effectOf(power.powerUp);
+            if (effect.draw) effect.draw(graphics, power, boardWidth, boardHeight);
+        });
+    }
+}
@@ -0,0 +1,70 @@
+import { bombEffect, doubleScoreEffect, freezeEffect, laserEffect, magnetEffect } from './effects';
+import { parsePowerUp, PowerUp } from './PowerUp';
+import type { PowerUpEffect } from './PowerUpEffect';
+import powerUpData from './powerUps.json';
+
+export class PowerUpEffectRegistry {
+    private readonly effects = new Map<string, PowerUpEffect>();
+
+    register(id: string, effect: PowerUpEffect): void {
+        this.effects.set(id, effect);
+    }
+
+    has(id: string): boolean {
+        return this.effects.has(id);
+    }
+
+    get(id: string): PowerUpEffect {
+        const effect = this.effects.get(id);
+        if (!effect) throw new Error(`Unknown power-up effect "${id}"`);
+        return effect;
+    }
+}
+
+export class PowerUpRegistry {
+    private readonly powerUps = new Map<string, PowerUp>();
+    private readonly order: string[] = [];
+
+    constructor(private readonly effects: PowerUpEffectRegistry) {}
+
+    // Accepts raw data (e.g. parsed JSON). Its effect must already be registered.
+    register(raw: unknown): PowerUp {
+        const powerUp = parsePowerUp(raw, this.effects, `powerUp[${this.order.length}]`);
+        if (!this.powerUps.has(powerUp.id)) this.order.push(powerUp.id);
+        this.powerUps.set(powerUp.id, powerUp);
+        return powerUp;
+    }
+
+    registerAll(raw: unknown[]): void {
+        raw.forEach((entry) => this.register(entry));
+    }
+
+    has(id: string): boolean {
+        return this.powerUps.has(id);
+    }
+
+    get(id: string): PowerUp {
+        const powerUp = this.powerUps.get(id);
+        if (!powerUp) throw new Error(`Unknown power-up "${id}"`);
+        return powerUp;
+    }
+
+    effectOf(powerUp: PowerUp): PowerUpEffect {
+        return this.effects.get(powerUp.effect);
+    }
+
+    ids(): string[] {
+        return this.order.slice();
+    }
+}
+
+// The built-in effects and power-ups shipped with the game. Register new effects here before their data.
+export const powerUpEffects = new PowerUpEffectRegistry();
+powerUpEffects.register('bomb', bombEffect);
+powerUpEffects.register('freeze', freezeEffect);
+powerUpEffects.register('magnet', magnetEffect);
+powerUpEffects.register('doubleScore', doubleScoreEffect);
+powerUpEffects.register('laser', laserEffect);
+
+export const powerUps = new PowerUpRegistry(powerUpEffects);
+powerUps.registerAll(powerUpData);
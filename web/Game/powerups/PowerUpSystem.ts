@@ -0,0 +1,168 @@
+import type { Rng } from '../random/Rng';
+import type { Shape } from '../shapes/Shape';
+import type { PowerUp } from './PowerUp';
+import { ActivePowerUp, neutralModifiers, PowerUpContext, PowerUpModifiers } from './PowerUpEffect';
+import { PowerUpRegistry, powerUps } from './PowerUpRegistry';
+
+export interface PowerUpConfig {
+    // Ids of the power-ups that may spawn.
+    pool: string[];
+    // Seconds between spawns, picked from [min, max].
+    interval: [number, number];
+}
+
+export const DEFAULT_POWER_UP_INTERVAL: [number, number] = [10, 18];
+
+export interface PowerUpStepResult {
+    // Power-ups to place on the board as collectibles.
+    spawns: PowerUp[];
+    // Collectibles whose lifetime ran out; take them off the board without collecting them.
+    faded: Shape[];
+}
+
+interface Collectible {
+    powerUp: PowerUp;
+    shape: Shape;
+    remaining: number;
+}
+
+/**
+ * Spawns power-ups as collectible shapes and runs the ones the player collects: their timers,
+ * stacking and effects. Randomness comes from its own stream, so a run still reproduces from its seed.
+ */
+export class PowerUpSystem {
+    private readonly running: ActivePowerUp[] = [];
+    private readonly collectibles = new Map<number, Collectible>();
+    private untilSpawn: number;
+
+    constructor(
+        private readonly config: PowerUpConfig | null,
+        private readonly rng: Rng,
+        private readonly registry: PowerUpRegistry = powerUps,
+    ) {
+        this.untilSpawn = config ? this.nextInterval(config) : Infinity;
+    }
+
+    // Running power-ups, in the order they were collected.
+    get active(): readonly ActivePowerUp[] {
+        return this.running;
+    }
+
+    // Collectibles waiting on the board. They don't count towards the level's shape limits.
+    get onBoard(): number {
+        return this.collectibles.size;
+    }
+
+    // Whether `shape` is a collectible waiting on the board.
+    isCollectible(shape: Shape): boolean {
+        return this.collectibles.has(shape.id);
+    }
+
+    // What the running power-ups do to this step.
+    modifiers(): PowerUpModifiers {
+        const modifiers = neutralModifiers();
+        this.running.forEach((active) => {
+            const effect = this.registry.effectOf(active.powerUp);
+            if (effect.modify) effect.modify(modifiers, active);
+        });
+        return modifiers;
+    }
+
+    // Remembers `shape` as the collectible for `powerUp`.
+    place(powerUp: PowerUp, shape: Shape): void {
+        this.collectibles.set(shape.id, { powerUp, shape, remaining: powerUp.lifetime });
+    }
+
+    // Call for every destroyed shape. Returns the power-up collected, or null if the shape wasn't one.
+    collect(shape: Shape, context: PowerUpContext): PowerUp | null {
+        const collectible = this.collectibles.get(shape.id);
+        if (!collectible) return null;
+        this.collectibles.delete(shape.id);
+
+        const powerUp = collectible.powerUp;
+        const effect = this.registry.effectOf(powerUp);
+        const existing = this.running.filter((active) => active.powerUp.id === powerUp.id)[0];
+
+        if (existing) {
+            this.restack(existing);
+            return powerUp;
+        }
+
+        const active: ActivePowerUp = {
+            powerUp,
+            x: shape.x,
+            y: shape.y,
+            remaining: powerUp.duration,
+            duration: powerUp.duration,
+            stacks: 1,
+            elapsed: 0,
+        };
+        // Instant power-ups never join the running list.
+        if (powerUp.duration > 0) this.running.push(active);
+        if (effect.activate) effect.activate(context, active);
+        return powerUp;
+    }
+
+    step(context: PowerUpContext, dt: number): PowerUpStepResult {
+        const result: PowerUpStepResult = { spawns: [], faded: [] };
+
+        // Iterate over a copy: an effect may destroy a collectible, which adds to the list.
+        this.running.slice().forEach((active) => {
+            const effect = this.registry.effectOf(active.powerUp);
+            active.elapsed += dt;
+            if (effect.step) effect.step(context, active, dt);
+
+            active.remaining -= dt;
+            if (active.remaining > 0) return;
+            this.running.splice(this.running.indexOf(active), 1);
+            if (effect.expire) effect.expire(context, active);
+        });
+
+        this.collectibles.forEach((collectible, id) => {
+            collectible.remaining -= dt;
+            if (collectible.remaining > 0) return;
+            this.collectibles.delete(id);
+            result.faded.push(collectible.shape);
+        });
+
+        if (this.config) {
+            this.untilSpawn -= dt;
+            if (this.untilSpawn <= 0) {
+                const powerUp = this.pick(this.config);
+                if (powerUp) result.spawns.push(powerUp);
+                this.untilSpawn = this.nextInterval(this.config);
+            }
+        }
+
+        return result;
+    }
+
+    private restack(active: ActivePowerUp): void {
+        const powerUp = active.powerUp;
+        switch (powerUp.stacking) {
+            case 'refresh':
+                active.remaining = active.duration = powerUp.duration;
+                break;
+            case 'extend':
+                active.remaining = Math.min(powerUp.maxDuration, active.remaining + powerUp.duration);
+                active.duration = Math.max(active.duration, active.remaining);
+                break;
+            case 'stack':
+                active.stacks = Math.min(powerUp.maxStacks, active.stacks + 1);
+                active.remaining = active.duration = powerUp.duration;
+                break;
+            case 'ignore':
+                break;
+        }
+    }
+
+    private pick(config: PowerUpConfig): PowerUp | null {
+        const pool = config.pool.map((id) => this.registry.get(id));
+        if (pool.length === 0) return null;
+        return pool[this.rng.weighted(pool.map((powerUp) => powerUp.weight))];
+    }
+
+    private nextInterval(config: PowerUpConfig): number {
+        return this.rng.range(config.interval[0], config.interval[1]);
+    }
+}
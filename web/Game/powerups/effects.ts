@@ -0,0 +1,63 @@
+import type { ActivePowerUp, PowerUpEffect } from './PowerUpEffect';
+
+// Everything in reach of where it was collected takes a heavy hit at once.
+export const bombEffect: PowerUpEffect = {
+    requiredParams: ['radius', 'damage'],
+    activate(context, active) {
+        const { radius, damage } = active.powerUp.params;
+        context.collisions.queryCircle(active.x, active.y, radius).forEach((shape) => context.damage(shape, damage));
+    },
+};
+
+// Shapes crawl while it runs.
+export const freezeEffect: PowerUpEffect = {
+    requiredParams: ['timeScale'],
+    modify(modifiers, active) {
+        modifiers.shapeTimeScale *= active.powerUp.params.timeScale;
+    },
+};
+
+// Pops snap to shapes near the pointer. Each stack adds reach.
+export const magnetEffect: PowerUpEffect = {
+    requiredParams: ['reach'],
+    modify(modifiers, active) {
+        modifiers.popReach += active.powerUp.params.reach * active.stacks;
+    },
+};
+
+export const doubleScoreEffect: PowerUpEffect = {
+    requiredParams: ['multiplier'],
+    modify(modifiers, active) {
+        modifiers.scoreScale *= active.powerUp.params.multiplier;
+    },
+};
+
+// Where the laser's beam is: it starts where the power-up was collected and sweeps back and forth across the board.
+export function laserX(active: ActivePowerUp, boardWidth: number): number {
+    const travelled = active.x + active.elapsed * active.powerUp.params.speed;
+    const lap = travelled % (boardWidth * 2);
+    return lap <= boardWidth ? lap : boardWidth * 2 - lap;
+}
+
+// A vertical beam that damages whatever it passes over.
+export const laserEffect: PowerUpEffect = {
+    requiredParams: ['speed', 'width', 'damagePerSecond'],
+    step(context, active, dt) {
+        const x = laserX(active, context.boardWidth);
+        const halfWidth = active.powerUp.params.width / 2;
+        context.shapes.forEach((shape) => {
+            if (shape.alive && Math.abs(shape.x - x) <= shape.radius + halfWidth) {
+                context.damage(shape, active.powerUp.params.damagePerSecond * dt);
+            }
+        });
+    },
+    draw(graphics, active, boardWidth, boardHeight) {
+        const x = laserX(active, boardWidth);
+        const width = active.powerUp.params.width;
+        graphics
+            .rect(x - width / 2, 0, width, boardHeight)
+            .fill({ color: active.powerUp.color, alpha: 0.35 })
+            .rect(x - 1, 0, 2, boardHeight)
+            .fill({ color: 0xffffff, alpha: 0.9 });
+    },
+};
@@ -0,0 +1,38 @@
+import { hashString, Rng } from './Rng';
+
+/**
+ * The named streams gameplay draws from. Each is seeded independently from the run seed, so
+ * drawing more from one (say, extra particles on a faster machine) never shifts another.
+ *
+ * `particles` is cosmetic only: nothing that affects the score may read from it.
+ */
+export type RandomStream = 'spawn' | 'shapes' | 'particles' | 'powerUps' | 'director' | 'bosses';
+
+/**
+ * Owns the run seed and hands out its sub-streams. All gameplay randomness comes from here, never
+ * from `Math.random`, so a run can be reproduced exactly from its seed and its inputs.
+ */
+export class RandomService {
+    private readonly streams = new Map<string, Rng>();
+
+    constructor(readonly seed: number) {}
+
+    stream(name: RandomStream): Rng {
+        let rng = this.streams.get(name);
+        if (!rng) {
+            rng = new Rng(hashString(`${this.seed}:${name}`));
+            this.streams.set(name, rng);
+        }
+        return rng;
+    }
+}
+
+// A fresh seed for a normal run. The only place the game is allowed to use `Math.random`.
+export function createSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// The same seed for everyone on a given UTC day, for daily challenges.
+export function dailySeed(date: Date = new Date()): number {
+    return hashString(`daily:${date.toISOString().slice(0, 10)}`);
+}
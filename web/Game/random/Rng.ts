@@ -0,0 +1,70 @@
+// 32-bit FNV-1a. Used to turn seeds and stream names into generator state.
+export function hashString(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * A small, fast, seedable generator (mulberry32). Two generators with the same seed produce the
+ * same sequence on every platform, which is what replays and score verification rely on.
+ */
+export class Rng {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    // A float in [0, 1). An arrow so it can be handed around as a plain `() => number`.
+    readonly next = (): number => {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
+    // A float in [min, max).
+    range(min: number, max: number): number {
+        return min + (max - min) * this.next();
+    }
+
+    // An integer in [min, max], both inclusive.
+    int(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+
+    pick<T>(items: T[]): T {
+        if (items.length === 0) throw new Error('Cannot pick from an empty list');
+        return items[Math.floor(this.next() * items.length)];
+    }
+
+    // Picks an index with probability proportional to its weight.
+    weighted(weights: number[]): number {
+        let total = 0;
+        weights.forEach((weight) => (total += Math.max(0, weight)));
+        let roll = this.next() * total;
+        for (let i = 0; i < weights.length; i++) {
+            roll -= Math.max(0, weights[i]);
+            if (roll < 0) return i;
+        }
+        return weights.length - 1;
+    }
+
+    // Saves and restores the generator position, e.g. for replay scrubbing.
+    getState(): number {
+        return this.state;
+    }
+
+    setState(state: number): void {
+        this.state = state >>> 0;
+    }
+}
@@ -0,0 +1,32 @@
+import type { GameAction } from '../input/actions';
+import type { ActionTrigger } from '../input/InputSnapshot';
+import type { Level } from '../levels/Level';
+
+// 2: aim is recorded whenever it moves and stored as the change since the previous frame.
+export const REPLAY_FORMAT_VERSION = 2;
+
+/**
+ * The input of one simulation step that had any: a press, a trigger or a move of the aim. Other steps
+ * are left out and keep the previous frame's aim. Positions are in board coordinates. `pause` is never recorded: pausing is not part of the simulation.
+ */
+export interface ReplayFrame {
+    tick: number;
+    aimX: number;
+    aimY: number;
+    pressed: GameAction[];
+    triggers: ActionTrigger[];
+}
+
+/**
+ * Everything needed to re-simulate a run: the seed, the level and the input of every step.
+ * Built-in levels are referenced by id; any other level (e.g. from the editor) is stored whole.
+ */
+export interface Replay {
+    gameVersion: string;
+    seed: number;
+    levelId: string;
+    level?: Level;
+    // Steps the run lasted, including the trailing ones without input.
+    ticks: number;
+    frames: ReplayFrame[];
+}
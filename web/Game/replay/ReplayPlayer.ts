@@ -0,0 +1,73 @@
+import { emptySnapshot, InputSnapshot } from '../input/InputSnapshot';
+import type { Replay } from './Replay';
+
+// Playback speeds offered by the replay controls.
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+/**
+ * Feeds a replay's recorded input back to the simulation one step at a time, and keeps track
+ * of playback speed and pause.
+ */
+export class ReplayPlayer {
+    paused = false;
+    private speedIndex = REPLAY_SPEEDS.indexOf(1);
+    private tick = 0;
+    private nextFrame = 0;
+    private stepCredit = 0;
+    private input: InputSnapshot = emptySnapshot(0);
+
+    constructor(readonly replay: Replay) {}
+
+    // The input handed out by the latest call to `next`, for drawing the recorded aim.
+    get lastInput(): InputSnapshot {
+        return this.input;
+    }
+
+    get currentTick(): number {
+        return this.tick;
+    }
+
+    get finished(): boolean {
+        return this.tick >= this.replay.ticks;
+    }
+
+    get speed(): number {
+        return REPLAY_SPEEDS[this.speedIndex];
+    }
+
+    changeSpeed(direction: 1 | -1): void {
+        this.speedIndex = Math.max(0, Math.min(REPLAY_SPEEDS.length - 1, this.speedIndex + direction));
+    }
+
+    setSpeed(speed: number): void {
+        const index = REPLAY_SPEEDS.indexOf(speed);
+        if (index !== -1) this.speedIndex = index;
+    }
+
+    // How many simulation steps to run for one real step at the current speed.
+    stepsDue(): number {
+        if (this.paused) return 0;
+        this.stepCredit += this.speed;
+        const steps = Math.floor(this.stepCredit);
+        this.stepCredit -= steps;
+        return steps;
+    }
+
+    // The recorded input for the next step.
+    next(): InputSnapshot {
+        const snapshot: InputSnapshot = { ...emptySnapshot(this.tick), aimX: this.input.aimX, aimY: this.input.aimY };
+
+        const frame = this.replay.frames[this.nextFrame];
+        if (frame && frame.tick === this.tick) {
+            this.nextFrame++;
+            snapshot.aimX = frame.aimX;
+            snapshot.aimY = frame.aimY;
+            snapshot.pressed = frame.pressed.slice();
+            snapshot.triggers = frame.triggers.map((trigger) => ({ ...trigger }));
+        }
+
+        this.tick++;
+        this.input = snapshot;
+        return snapshot;
+    }
+}
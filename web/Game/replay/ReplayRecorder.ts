@@ -0,0 +1,46 @@
+import { GAME_VERSION } from '../config';
+import { emptySnapshot, InputSnapshot } from '../input/InputSnapshot';
+import type { Level } from '../levels/Level';
+import type { Replay, ReplayFrame } from './Replay';
+
+export class ReplayRecorder {
+    private readonly frames: ReplayFrame[] = [];
+    private tick = 0;
+    // The aim as of the last recorded frame, which playback carries forward until the next one.
+    private aimX = emptySnapshot().aimX;
+    private aimY = emptySnapshot().aimY;
+
+    // `level` is only stored when it isn't one of the built-in levels.
+    constructor(private readonly seed: number, private readonly levelId: string, private readonly level?: Level) {}
+
+    // Records the input used for the next simulation step. Aim is part of the simulation (bosses fire at
+    // it), so a step is recorded whenever it moved, not only when something was pressed.
+    record(input: InputSnapshot): void {
+        const pressed = input.pressed.filter((action) => action !== 'pause');
+        const aimMoved = input.aimX !== this.aimX || input.aimY !== this.aimY;
+        if (pressed.length > 0 || input.triggers.length > 0 || aimMoved) {
+            this.aimX = input.aimX;
+            this.aimY = input.aimY;
+            this.frames.push({
+                tick: this.tick,
+                aimX: input.aimX,
+                aimY: input.aimY,
+                pressed,
+                triggers: input.triggers.map(({ action, x, y }) => ({ action, x, y })),
+            });
+        }
+        this.tick++;
+    }
+
+    finish(): Replay {
+        const replay: Replay = {
+            gameVersion: GAME_VERSION,
+            seed: this.seed,
+            levelId: this.levelId,
+            ticks: this.tick,
+            frames: this.frames.slice(),
+        };
+        if (this.level) replay.level = this.level;
+        return replay;
+    }
+}
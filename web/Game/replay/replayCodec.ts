@@ -0,0 +1,213 @@
+import { GAME_ACTIONS } from '../input/actions';
+import { emptySnapshot, POSITION_PRECISION } from '../input/InputSnapshot';
+import { loadLevel } from '../levels/loadLevel';
+import { REPLAY_FORMAT_VERSION, Replay, ReplayFrame } from './Replay';
+
+// The first format, which stored aim as absolute positions. Still read, never written.
+const ABSOLUTE_AIM_VERSION = 1;
+
+// "SSRP" — marks the start of every encoded replay.
+const MAGIC = [0x53, 0x53, 0x52, 0x50];
+
+class ByteWriter {
+    readonly bytes: number[] = [];
+
+    u8(value: number): void {
+        this.bytes.push(value & 0xff);
+    }
+
+    u16(value: number): void {
+        this.u8(value >>> 8);
+        this.u8(value);
+    }
+
+    u32(value: number): void {
+        this.u16(value >>> 16);
+        this.u16(value);
+    }
+
+    // Unsigned LEB128: small numbers, such as gaps between frames, take a single byte.
+    varint(value: number): void {
+        while (value >= 0x80) {
+            this.u8((value & 0x7f) | 0x80);
+            value = Math.floor(value / 128);
+        }
+        this.u8(value);
+    }
+
+    string(value: string): void {
+        const encoded = new TextEncoder().encode(value);
+        this.varint(encoded.length);
+        for (let i = 0; i < encoded.length; i++) this.u8(encoded[i]);
+    }
+
+    // Zigzag, so small moves either way take a single byte.
+    signedVarint(value: number): void {
+        this.varint(value < 0 ? -value * 2 - 1 : value * 2);
+    }
+
+    position(value: number): void {
+        this.u16(toUnits(value));
+    }
+
+    // The change from `previous` to `value`, in position units.
+    positionDelta(value: number, previous: number): void {
+        this.signedVarint(toUnits(value) - toUnits(previous));
+    }
+}
+
+function toUnits(position: number): number {
+    return Math.max(0, Math.min(0xffff, Math.round(position * POSITION_PRECISION)));
+}
+
+class ByteReader {
+    private offset = 0;
+
+    constructor(private readonly bytes: Uint8Array) {}
+
+    u8(): number {
+        if (this.offset >= this.bytes.length) throw new Error('Replay is truncated');
+        return this.bytes[this.offset++];
+    }
+
+    u16(): number {
+        return (this.u8() << 8) | this.u8();
+    }
+
+    u32(): number {
+        return ((this.u16() << 16) | this.u16()) >>> 0;
+    }
+
+    varint(): number {
+        let value = 0;
+        let scale = 1;
+        for (;;) {
+            const byte = this.u8();
+            value += (byte & 0x7f) * scale;
+            if (byte < 0x80) return value;
+            scale *= 128;
+        }
+    }
+
+    string(): string {
+        const length = this.varint();
+        const slice = this.bytes.subarray(this.offset, this.offset + length);
+        if (slice.length !== length) throw new Error('Replay is truncated');
+        this.offset += length;
+        return new TextDecoder().decode(slice);
+    }
+
+    signedVarint(): number {
+        const value = this.varint();
+        return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+    }
+
+    position(): number {
+        return this.u16() / POSITION_PRECISION;
+    }
+
+    positionDelta(previous: number): number {
+        return (Math.round(previous * POSITION_PRECISION) + this.signedVarint()) / POSITION_PRECISION;
+    }
+}
+
+function actionMask(actions: string[]): number {
+    let mask = 0;
+    actions.forEach((action) => (mask |= 1 << GAME_ACTIONS.indexOf(action as never)));
+    return mask;
+}
+
+// Packs a replay into bytes. Frames store the gap since the previous frame and how far the aim moved,
+// so idle stretches cost nothing and a steadily moving aim a few bytes per step.
+export function encodeReplay(replay: Replay): Uint8Array {
+    const out = new ByteWriter();
+    MAGIC.forEach((byte) => out.u8(byte));
+    out.u8(REPLAY_FORMAT_VERSION);
+    out.string(replay.gameVersion);
+    out.u32(replay.seed);
+    out.string(replay.levelId);
+    out.string(replay.level ? JSON.stringify(replay.level) : '');
+    out.varint(replay.ticks);
+    out.varint(replay.frames.length);
+
+    let previousTick = 0;
+    let previousAim = emptySnapshot();
+    replay.frames.forEach((frame) => {
+        out.varint(frame.tick - previousTick);
+        previousTick = frame.tick;
+        out.u8(actionMask(frame.pressed));
+        out.positionDelta(frame.aimX, previousAim.aimX);
+        out.positionDelta(frame.aimY, previousAim.aimY);
+        previousAim = { ...previousAim, aimX: frame.aimX, aimY: frame.aimY };
+        out.varint(frame.triggers.length);
+        frame.triggers.forEach((trigger) => {
+            out.u8(GAME_ACTIONS.indexOf(trigger.action));
+            out.position(trigger.x);
+            out.position(trigger.y);
+        });
+    });
+
+    return new Uint8Array(out.bytes);
+}
+
+export function decodeReplay(bytes: Uint8Array): Replay {
+    const input = new ByteReader(bytes);
+    MAGIC.forEach((byte) => {
+        if (input.u8() !== byte) throw new Error('Not a ShapeSplosion replay');
+    });
+
+    const version = input.u8();
+    if (version !== REPLAY_FORMAT_VERSION && version !== ABSOLUTE_AIM_VERSION) throw new Error(`Unsupported replay format ${version}`);
+
+    const gameVersion = input.string();
+    const seed = input.u32();
+    const levelId = input.string();
+    const levelJson = input.string();
+    const ticks = input.varint();
+    const frameCount = input.varint();
+
+    const frames: ReplayFrame[] = [];
+    let tick = 0;
+    let aimX = emptySnapshot().aimX;
+    let aimY = emptySnapshot().aimY;
+    for (let i = 0; i < frameCount; i++) {
+        tick += input.varint();
+        const mask = input.u8();
+        aimX = version === ABSOLUTE_AIM_VERSION ? input.position() : input.positionDelta(aimX);
+        aimY = version === ABSOLUTE_AIM_VERSION ? input.position() : input.positionDelta(aimY);
+        const triggerCount = input.varint();
+        const triggers = [];
+        for (let j = 0; j < triggerCount; j++) {
+            const action = GAME_ACTIONS[input.u8()];
+            if (!action) throw new Error('Replay contains an unknown action');
+            triggers.push({ action, x: input.position(), y: input.position() });
+        }
+        frames.push({
+            tick,
+            aimX,
+            aimY,
+            pressed: GAME_ACTIONS.filter((_, index) => (mask & (1 << index)) !== 0),
+            triggers,
+        });
+    }
+
+    const replay: Replay = { gameVersion, seed, levelId, ticks, frames };
+    if (levelJson) replay.level = loadLevel(JSON.parse(levelJson));
+    return replay;
+}
+
+// URL-safe base64, for storing replays as text or sharing them in links.
+export function replayToString(replay: Replay): string {
+    const bytes = encodeReplay(replay);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function replayFromString(text: string): Replay {
+    const base64 = text.trim().replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '==='.slice((base64.length + 3) % 4));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return decodeReplay(bytes);
+}
@@ -0,0 +1,16 @@
+import { BACKGROUND_BUNDLES, STARTUP_BUNDLES } from '../assets/manifest';
+import { Scene } from '../core/Scene';
+import type { LoadingData } from './LoadingScene';
+import { SceneNames } from './SceneNames';
+
+// First scene to run. Sets up anything the rest of the game needs, then hands over to the title.
+export class BootScene extends Scene {
+    update(): void {
+        const data: LoadingData = {
+            bundles: STARTUP_BUNDLES,
+            preload: BACKGROUND_BUNDLES,
+            next: { scene: SceneNames.Title },
+        };
+        this.game.scenes.change(SceneNames.Loading, data);
+    }
+}
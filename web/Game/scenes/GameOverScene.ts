@@ -0,0 +1,99 @@
+import { Text } from 'pixi.js';
+import { uiSound } from '../audio/sounds';
+import { Scene } from '../core/Scene';
+import type { ScoreSummary } from '../gameplay/ScoreEngine';
+import type { I18n } from '../i18n/I18n';
+import { wasPressed } from '../input/InputSnapshot';
+import { Menu, MenuItem } from '../ui/Menu';
+import { createBodyStyle, createTitleStyle } from '../ui/styles';
+import type { GameOverData, PlayData } from './PlayScene';
+import { SceneNames } from './SceneNames';
+
+// How long, in seconds, the total takes to count up.
+const COUNT_UP_SECONDS = 1.2;
+
+// One line per stat and bonus, e.g. "Accuracy bonus: +420".
+function describeScore(score: ScoreSummary, i18n: I18n): string {
+    const lines = [
+        i18n.t('gameOver.pops', { count: score.pops }),
+        i18n.t('gameOver.accuracy', { accuracy: score.accuracy }),
+        i18n.t('gameOver.bestCombo', { combo: score.bestCombo }),
+        i18n.t('gameOver.longestChain', { size: score.longestChain }),
+    ];
+    score.bonuses.forEach((bonus) => lines.push(i18n.t(`bonus.${bonus.id}`, { points: bonus.points })));
+    return lines.join('\n');
+}
+
+export class GameOverScene extends Scene {
+    private data: GameOverData | undefined;
+    private readonly heading = new Text({ text: '', style: createTitleStyle() });
+    private readonly total = new Text({ text: '', style: createTitleStyle(28) });
+    private readonly breakdown = new Text({ text: '', style: createBodyStyle(18) });
+    private menu!: Menu;
+    private time = 0;
+
+    enter(data?: GameOverData): void {
+        this.data = data;
+
+        this.time = this.game.settings.current.reduceMotion ? COUNT_UP_SECONDS : 0;
+
+        const items: MenuItem[] = [];
+        if (data) {
+            items.push({ label: (i18n) => i18n.t('gameOver.retry'), select: () => this.game.scenes.change(SceneNames.Play, data.retry) });
+            items.push({ label: (i18n) => i18n.t('gameOver.watchReplay'), select: () => this.watchReplay() });
+        }
+        const continueLabel = data && data.exitTo ? 'gameOver.backToEditor' : 'gameOver.mainMenu';
+        items.push({ label: (i18n) => i18n.t(continueLabel), select: () => this.continue() });
+        this.menu = new Menu(items, this.game.i18n, (cue) => this.game.audio.play('ui', uiSound(cue)), 20);
+
+        [this.heading, this.total, this.breakdown].forEach((text) => text.anchor.set(0.5, 0.5));
+        this.container.addChild(this.heading, this.total, this.breakdown, this.menu.container);
+    }
+
+    localize(): void {
+        const data = this.data;
+        this.heading.text = this.game.i18n.t(data && data.cleared ? 'gameOver.cleared' : 'gameOver.title');
+        if (data) this.breakdown.text = describeScore(data.score, this.game.i18n);
+        this.showTotal();
+        this.menu.refresh();
+    }
+
+    layout(width: number, height: number): void {
+        this.heading.position.set(width / 2, height / 8);
+        this.total.position.set(width / 2, height / 4);
+        this.breakdown.position.set(width / 2, height * 0.48);
+        this.menu.container.position.set(width / 2, height * 0.82);
+    }
+
+    update(dt: number): void {
+        this.time += dt;
+        this.showTotal();
+
+        const input = this.game.input.current;
+        // Right-click (or the power-up key) still jumps straight to the replay.
+        if (this.data && wasPressed(input, 'powerUp')) {
+            this.watchReplay();
+            return;
+        }
+        this.menu.update(input);
+    }
+
+    // Counts the total up from zero, easing out so it settles on the final score.
+    private showTotal(): void {
+        const final = this.data ? this.data.score.total : 0;
+        const t = Math.min(1, this.time / COUNT_UP_SECONDS);
+        this.total.text = this.game.i18n.t('gameOver.score', { score: Math.round(final * (1 - (1 - t) * (1 - t))) });
+    }
+
+    private watchReplay(): void {
+        if (!this.data) return;
+        const replay: PlayData = { replay: this.data.replay, exitTo: this.data.exitTo };
+        this.game.scenes.change(SceneNames.Play, replay);
+    }
+
+    private continue(): void {
+        const exit = this.data && this.data.exitTo;
+        if (exit) this.game.scenes.change(exit.scene, exit.data);
+        else this.game.scenes.change(SceneNames.MainMenu);
+    }
+}
@@ -0,0 +1,85 @@
+import { Graphics, Text } from 'pixi.js';
+import { loadBundles, preloadBundles } from '../assets/loadAssets';
+import type { AssetBundle } from '../assets/manifest';
+import { Scene } from '../core/Scene';
+import { wasPressed } from '../input/InputSnapshot';
+import { createBodyStyle } from '../ui/styles';
+import type { SceneExit } from './PlayScene';
+
+export interface LoadingData {
+    // Loaded before moving on.
+    bundles: AssetBundle[];
+    // Started in the background once `bundles` are in.
+    preload?: AssetBundle[];
+    next: SceneExit;
+}
+
+const BAR_WIDTH = 320;
+const BAR_HEIGHT = 14;
+
+type LoadState = 'loading' | 'failed' | 'done';
+
+// Shows a progress bar while asset bundles load, and offers a retry if they fail.
+export class LoadingScene extends Scene {
+    private readonly bar = new Graphics();
+    private readonly label = new Text({ text: '', style: createBodyStyle() });
+    private data!: LoadingData;
+    private state: LoadState = 'loading';
+    private progress = 0;
+    private active = true;
+
+    enter(data: LoadingData): void {
+        this.data = data;
+        this.label.anchor.set(0.5, 0.5);
+        this.container.addChild(this.bar, this.label);
+        this.load();
+    }
+
+    exit(): void {
+        this.active = false;
+    }
+
+    layout(width: number, height: number): void {
+        this.bar.position.set((width - BAR_WIDTH) / 2, height / 2 - BAR_HEIGHT / 2);
+        this.label.position.set(width / 2, height / 2 + 36);
+    }
+
+    // Scene changes only happen here, on a fixed step, never from inside the loading promise.
+    update(): void {
+        if (this.state === 'done') {
+            this.game.scenes.change(this.data.next.scene, this.data.next.data);
+        } else if (this.state === 'failed' && wasPressed(this.game.input.current, 'pop')) {
+            this.load();
+        }
+    }
+
+    render(): void {
+        this.bar.clear();
+        this.bar.rect(0, 0, BAR_WIDTH, BAR_HEIGHT).fill({ color: 0x000000, alpha: 0.4 });
+        this.bar.rect(0, 0, BAR_WIDTH * this.progress, BAR_HEIGHT).fill(this.state === 'failed' ? 0xff5555 : 0x00ff99);
+
+        const i18n = this.game.i18n;
+        if (this.state === 'failed') this.label.text = i18n.t('loading.failed');
+        else this.label.text = i18n.t('loading.progress', { progress: this.progress });
+    }
+
+    private load(): void {
+        this.state = 'loading';
+        this.progress = 0;
+        loadBundles(this.data.bundles, (progress) => {
+            this.progress = progress;
+        }).then(
+            () => {
+                if (!this.active) return;
+                this.progress = 1;
+                this.state = 'done';
+                if (this.data.preload) preloadBundles(this.data.preload);
+            },
+            (error) => {
+                if (!this.active) return;
+                console.error('Asset loading failed', error);
+                this.state = 'failed';
+            },
+        );
+    }
+}
@@ -0,0 +1,36 @@
+import { Text } from 'pixi.js';
+import { uiSound } from '../audio/sounds';
+import { Scene } from '../core/Scene';
+import { Menu } from '../ui/Menu';
+import { createTitleStyle } from '../ui/styles';
+import { SceneNames } from './SceneNames';
+
+export class MainMenuScene extends Scene {
+    private readonly heading = new Text({ text: '', style: createTitleStyle() });
+    private menu!: Menu;
+
+    enter(): void {
+        this.heading.anchor.set(0.5, 0.5);
+        this.menu = new Menu([
+            { label: (i18n) => i18n.t('menu.play'), select: () => this.game.scenes.change(SceneNames.Play) },
+            { label: (i18n) => i18n.t('menu.modes'), select: () => this.game.scenes.change(SceneNames.Modes) },
+            { label: (i18n) => i18n.t('menu.settings'), select: () => this.game.scenes.push(SceneNames.Settings) },
+            { label: (i18n) => i18n.t('menu.quit'), select: () => this.game.scenes.change(SceneNames.Title) },
+        ], this.game.i18n, (cue) => this.game.audio.play('ui', uiSound(cue)), 28);
+        this.container.addChild(this.heading, this.menu.container);
+    }
+
+    localize(): void {
+        this.heading.text = this.game.i18n.t('game.title');
+        this.menu.refresh();
+    }
+
+    layout(width: number, height: number): void {
+        this.heading.position.set(width / 2, height / 5);
+        this.menu.container.position.set(width / 2, height * 0.6);
+    }
+
+    update(): void {
+        this.menu.update(this.game.input.current);
+    }
+}
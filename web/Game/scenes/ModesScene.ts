@@ -0,0 +1,62 @@
+import { Text } from 'pixi.js';
+import { uiSound } from '../audio/sounds';
+import { Scene } from '../core/Scene';
+import { wasPressed } from '../input/InputSnapshot';
+import { builtinLevelIds, getBuiltinLevel } from '../levels/builtinLevels';
+import { dailySeed } from '../random/RandomService';
+import { Menu, MenuItem } from '../ui/Menu';
+import { createTitleStyle } from '../ui/styles';
+import type { PlayData } from './PlayScene';
+import { SceneNames } from './SceneNames';
+
+// Lists the ways to play: the endless arcade, today's daily challenge, and every level by name.
+export class ModesScene extends Scene {
+    private readonly heading = new Text({ text: '', style: createTitleStyle() });
+    private menu!: Menu;
+
+    enter(): void {
+        const items: MenuItem[] = [
+            { label: (i18n) => i18n.t('modes.arcade'), select: () => this.play({ levelId: 'arcade' }) },
+            // Everyone gets the same seed on the same day, so scores can be compared.
+            { label: (i18n) => i18n.t('modes.daily'), select: () => this.play({ levelId: 'arcade', seed: dailySeed() }) },
+        ];
+        builtinLevelIds()
+            .filter((id) => id !== 'arcade')
+            .forEach((id) => items.push({
+                label: (i18n) => i18n.label(`level.${id}.name`, getBuiltinLevel(id).name),
+                select: () => this.play({ levelId: id }),
+            }));
+        items.push({ label: (i18n) => i18n.t('menu.back'), select: () => this.back() });
+
+        this.heading.anchor.set(0.5, 0.5);
+        this.menu = new Menu(items, this.game.i18n, (cue) => this.game.audio.play('ui', uiSound(cue)), items.length > 7 ? 18 : 22);
+        this.container.addChild(this.heading, this.menu.container);
+    }
+
+    localize(): void {
+        this.heading.text = this.game.i18n.t('modes.title');
+        this.menu.refresh();
+    }
+
+    layout(width: number, height: number): void {
+        this.heading.position.set(width / 2, height / 8);
+        this.menu.container.position.set(width / 2, height * 0.58);
+    }
+
+    update(): void {
+        const input = this.game.input.current;
+        if (wasPressed(input, 'pause')) {
+            this.back();
+            return;
+        }
+        this.menu.update(input);
+    }
+
+    private play(data: PlayData): void {
+        this.game.scenes.change(SceneNames.Play, data);
+    }
+
+    private back(): void {
+        this.game.scenes.change(SceneNames.MainMenu);
+    }
+}
@@ -0,0 +1,73 @@
+import { Graphics, Text } from 'pixi.js';
+import { uiSound } from '../audio/sounds';
+import { Scene } from '../core/Scene';
+import { wasPressed } from '../input/InputSnapshot';
+import { Menu } from '../ui/Menu';
+import { createTitleStyle } from '../ui/styles';
+import type { PlayData, SceneExit } from './PlayScene';
+import { SceneNames } from './SceneNames';
+
+export interface PauseData {
+    // What "Restart" starts again.
+    restart: PlayData;
+    // Where "Quit" goes. Defaults to the main menu.
+    quitTo?: SceneExit;
+}
+
+// Overlay pushed on top of the play scene. The play scene keeps rendering underneath but stops updating.
+export class PauseScene extends Scene {
+    private readonly dim = new Graphics();
+    private readonly label = new Text({ text: '', style: createTitleStyle() });
+    private menu!: Menu;
+    private data: PauseData | undefined;
+
+    enter(data?: PauseData): void {
+        this.data = data;
+        this.game.setPaused('menu', true);
+
+        this.label.anchor.set(0.5, 0.5);
+
+        this.menu = new Menu([
+            { label: (i18n) => i18n.t('menu.resume'), select: () => this.game.scenes.pop() },
+            { label: (i18n) => i18n.t('menu.restart'), select: () => this.restart() },
+            { label: (i18n) => i18n.t('menu.settings'), select: () => this.game.scenes.push(SceneNames.Settings) },
+            { label: (i18n) => i18n.t('menu.quit'), select: () => this.quit() },
+        ], this.game.i18n, (cue) => this.game.audio.play('ui', uiSound(cue)));
+
+        this.container.addChild(this.dim, this.label, this.menu.container);
+    }
+
+    localize(): void {
+        this.label.text = this.game.i18n.t('pause.title');
+        this.menu.refresh();
+    }
+
+    layout(width: number, height: number): void {
+        this.dim.clear().rect(0, 0, width, height).fill({ color: 0x000000, alpha: 0.5 });
+        this.label.position.set(width / 2, height / 4);
+        this.menu.container.position.set(width / 2, height * 0.6);
+    }
+
+    exit(): void {
+        this.game.setPaused('menu', false);
+    }
+
+    update(): void {
+        const input = this.game.input.current;
+        if (wasPressed(input, 'pause')) {
+            this.game.scenes.pop();
+            return;
+        }
+        this.menu.update(input);
+    }
+
+    private restart(): void {
+        this.game.scenes.change(SceneNames.Play, this.data ? this.data.restart : undefined);
+    }
+
+    private quit(): void {
+        const exit = this.data && this.data.quitTo;
+        if (exit) this.game.scenes.change(exit.scene, exit.data);
+        else this.game.scenes.change(SceneNames.MainMenu);
+    }
+}
@@ -0,0 +1,470 @@
+import { Container, Graphics, Text } from 'pixi.js';
+import { PlaySounds } from '../audio/PlaySounds';
+import type { BossFight } from '../bosses/BossFight';
+import { Bot, BOT_SKILLS, BotSkillLevel } from '../bots/Bot';
+import { botStrategies } from '../bots/BotStrategyRegistry';
+import { STEPS_PER_SECOND } from '../config';
+import type { FocusLoss } from '../core/FocusMonitor';
+import { Scene } from '../core/Scene';
+import { Camera } from '../feel/Camera';
+import { PlayFeel } from '../feel/PlayFeel';
+import type { ScoreSummary } from '../gameplay/ScoreEngine';
+import { ActionTrigger, emptySnapshot, InputSnapshot, quantize, triggersOf, wasPressed } from '../input/InputSnapshot';
+import { getBuiltinLevel } from '../levels/builtinLevels';
+import type { Level } from '../levels/Level';
+import { particlePresets } from '../particles/ParticlePresetRegistry';
+import { ParticleSystem } from '../particles/ParticleSystem';
+import { PowerUpOverlay } from '../powerups/PowerUpOverlay';
+import { createSeed } from '../random/RandomService';
+import { hashString, Rng } from '../random/Rng';
+import type { Replay } from '../replay/Replay';
+import { ReplayPlayer } from '../replay/ReplayPlayer';
+import { ReplayRecorder } from '../replay/ReplayRecorder';
+import { DEFAULT_SHAPE_STYLE, sameShapeStyle, ShapeStyle, shapeStyleOf } from '../shapes/palettes';
+import type { Shape } from '../shapes/Shape';
+import { ShapeView } from '../shapes/ShapeView';
+import { Simulation } from '../sim/Simulation';
+import type { SimulationEvent, SimulationResult } from '../sim/SimulationEvents';
+import { Hud } from '../ui/Hud';
+import { BossBar } from '../ui/BossBar';
+import { fitInto, toLocalPoint } from '../ui/layout';
+import { PowerUpTray } from '../ui/PowerUpTray';
+import { ReplayControls } from '../ui/ReplayControls';
+import { ScorePopups } from '../ui/ScorePopups';
+import { createBodyStyle } from '../ui/styles';
+import type { PauseData } from './PauseScene';
+import { SceneNames } from './SceneNames';
+
+// Budget for explosion particles alive at once, by the particle detail setting.
+const MAX_PARTICLES = { high: 600, low: 200 };
+
+// Shape views built before the round starts; busy levels rarely have more on the board at once.
+const SHAPE_VIEWS_PREWARMED = 64;
+
+const DEFAULT_LEVEL_ID = 'arcade';
+
+// Seconds of play after the round is decided, while the finale plays out, before the game-over screen.
+const ENDING_SECONDS = 0.5;
+
+// How far one press of seek jumps in a replay, in steps.
+const SEEK_TICKS = 5 * STEPS_PER_SECOND;
+
+// Where to go once the player leaves the game-over screen.
+export interface SceneExit {
+    scene: string;
+    data?: unknown;
+}
+
+export interface PlayData {
+    // Seed for the run. A fresh one is picked when omitted.
+    seed?: number;
+    // A built-in level to play, or a level object (e.g. straight from the editor).
+    levelId?: string;
+    level?: Level;
+    // Defaults to the main menu.
+    exitTo?: SceneExit;
+    // Watch a recorded run instead of playing. Seed and level come from the replay.
+    replay?: Replay;
+    // Where to resume watching after a seek.
+    replayFrom?: ReplayCursor;
+    // Lets a bot play instead, e.g. as the title screen's attract mode. Any input ends the demo.
+    demo?: BotDemo;
+}
+
+export interface BotDemo {
+    strategy: string;
+    skill: BotSkillLevel;
+}
+
+export interface ReplayCursor {
+    tick: number;
+    speed: number;
+    paused: boolean;
+}
+
+export interface GameOverData {
+    seed: number;
+    levelId: string;
+    cleared: boolean;
+    elapsed: number;
+    score: ScoreSummary;
+    replay: Replay;
+    // Plays the same level again.
+    retry: PlayData;
+    exitTo?: SceneExit;
+}
+
+interface Ending {
+    // Null for demos, which skip the game-over screen.
+    data: GameOverData | null;
+    remaining: number;
+}
+
+export class PlayScene extends Scene {
+    private readonly camera = new Camera(this.game.settings);
+    private readonly board = new Container();
+    private readonly boardBackground = new Graphics();
+    private readonly shapeLayer = new Container();
+    private sim!: Simulation;
+    private unsubscribe: (() => void) | null = null;
+    private particles!: ParticleSystem;
+    private readonly reticle = new Graphics();
+    private readonly views = new Map<number, ShapeView>();
+    private shapeStyle = DEFAULT_SHAPE_STYLE;
+    private unsubscribeSettings: (() => void) | null = null;
+    private hud!: Hud;
+    private popups!: ScorePopups;
+    private readonly powerUpOverlay = new PowerUpOverlay();
+    private readonly powerUpTray = new PowerUpTray(this.game.i18n);
+    private readonly bossBar = new BossBar(this.game.i18n);
+    private sounds!: PlaySounds;
+    private feel!: PlayFeel;
+    // Set once the round is decided; the board keeps moving until the finale is over.
+    private ending: Ending | null = null;
+    private data: PlayData = {};
+    private exitTo: SceneExit | undefined;
+    // The latest live input, in board coordinates.
+    private boardInput: InputSnapshot = emptySnapshot();
+    // Exactly one of these is set: live runs are recorded, replays are played back.
+    private recorder: ReplayRecorder | null = null;
+    private player: ReplayPlayer | null = null;
+    private replayControls: ReplayControls | null = null;
+    // Set for demos, in place of live input.
+    private bot: Bot | null = null;
+    private readonly demoLabel = new Text({ text: '', style: createBodyStyle(16) });
+
+    // How hard the director is currently pushing, 0 to 1, for music and effects to follow.
+    get intensity(): number {
+        return this.sim.intensity;
+    }
+
+    enter(data: PlayData = {}): void {
+        this.data = data;
+        const replay = data.replay;
+        const level = replay
+            ? replay.level || getBuiltinLevel(replay.levelId)
+            : data.level || getBuiltinLevel(data.levelId || DEFAULT_LEVEL_ID);
+        const seed = replay ? replay.seed : data.seed !== undefined ? data.seed : createSeed();
+        this.sim = new Simulation({ level, seed });
+        this.exitTo = data.exitTo;
+
+        // Everything below only follows the simulation; none of it feeds back into the round.
+        const score = this.sim.score;
+        this.hud = new Hud(score, this.game.i18n);
+        this.popups = new ScorePopups(score, this.game.i18n);
+        this.sounds = new PlaySounds(this.game.audio, score, (kind) => this.sim.level.kinds.get(kind).radius);
+        this.feel = new PlayFeel(this.camera, this.game.time, score);
+        const budget = MAX_PARTICLES[this.game.settings.current.particleDetail];
+        this.particles = new ParticleSystem(budget, this.sim.random.stream('particles').next);
+        ShapeView.prewarm(SHAPE_VIEWS_PREWARMED);
+        this.unsubscribe = this.sim.on(this.onSimulationEvent);
+        this.applyShapeStyle(shapeStyleOf(this.game.settings.current));
+        this.unsubscribeSettings = this.game.settings.subscribe((settings) => this.applyShapeStyle(shapeStyleOf(settings)));
+
+        this.boardBackground.rect(0, 0, level.board.width, level.board.height).fill(level.board.background);
+        this.board.addChild(this.boardBackground, this.shapeLayer, this.particles.container, this.popups.container, this.powerUpOverlay.graphics);
+
+        this.reticle.circle(0, 0, 10).stroke({ color: 0xffffff, width: 2, alpha: 0.8 });
+        this.board.addChild(this.reticle);
+        this.camera.container.addChild(this.board);
+        this.container.addChild(this.camera.container, this.hud.container, this.bossBar.container, this.powerUpTray.container);
+
+        if (replay) this.startPlayback(replay, data.replayFrom);
+        else if (data.demo) this.startDemo(data.demo, seed);
+        else this.recorder = new ReplayRecorder(seed, level.id, data.level);
+    }
+
+    localize(): void {
+        this.hud.localize();
+        if (this.replayControls) this.replayControls.localize();
+        this.demoLabel.text = this.game.i18n.t('play.demo');
+    }
+
+    // The board keeps its own size and is scaled to fit; only the overlays follow the screen's shape.
+    layout(width: number, height: number): void {
+        const { board } = this.sim.level.level;
+        fitInto(this.board, board.width, board.height, width, height);
+        this.camera.resize(width, height);
+        this.hud.layout(width);
+        this.bossBar.layout(width);
+        this.powerUpTray.layout(width, height);
+        if (this.replayControls) this.replayControls.layout(width, height);
+        this.demoLabel.position.set(width / 2, height - 24);
+    }
+
+    exit(): void {
+        if (this.unsubscribe) this.unsubscribe();
+        if (this.unsubscribeSettings) this.unsubscribeSettings();
+        this.hud.destroy();
+        this.popups.destroy();
+        this.sounds.destroy();
+        this.feel.destroy();
+        this.sim.clear();
+        this.particles.clear();
+        this.views.forEach((view) => view.release());
+        this.views.clear();
+        ShapeView.checkLeaks();
+    }
+
+    update(dt: number): void {
+        this.camera.update(dt);
+        if (this.ending) {
+            this.updateEnding(dt);
+            return;
+        }
+        if (this.player) {
+            this.updatePlayback(dt);
+            return;
+        }
+        if (this.bot) {
+            this.updateDemo(dt);
+            return;
+        }
+
+        const input = this.toBoardSpace(this.game.input.current);
+        this.boardInput = input;
+        if (this.recorder) this.recorder.record(input);
+        if (this.simulate(dt, input)) return;
+
+        // Pausing only takes effect after the step, so every recorded step was simulated in full.
+        if (wasPressed(input, 'pause')) this.pause();
+    }
+
+    focusLost(_reason: FocusLoss): void {
+        if (this.player) this.player.paused = true;
+        else if (!this.bot) this.pause();
+    }
+
+    render(alpha: number): void {
+        this.views.forEach((view) => view.sync(alpha));
+
+        const input = this.player ? this.player.lastInput : this.boardInput;
+        this.reticle.position.set(input.aimX, input.aimY);
+
+        const remaining = this.sim.timeRemaining();
+        this.hud.setClock(isFinite(remaining) ? remaining : this.sim.elapsed);
+        this.hud.render();
+        const { board } = this.sim.level.level;
+        const active = this.sim.powerUps.active;
+        this.powerUpOverlay.render(active, board.width, board.height);
+        this.powerUpTray.render(active);
+        this.bossBar.render(this.sim.bossFights[0] || null);
+        if (this.player && this.replayControls) this.replayControls.render(this.player);
+    }
+
+    // Restarting keeps the level and, if one was given, the seed.
+    private pause(): void {
+        const data: PauseData = { restart: this.data, quitTo: this.exitTo };
+        this.game.scenes.push(SceneNames.Pause, data);
+    }
+
+    /**
+     * Moves positions in `input` from the screen onto the board. The aim is clamped to the board's edges;
+     * pops and power-ups that land off the board are dropped, as they'd hit nothing there. The simulation
+     * and replays only ever see board coordinates, so a replay plays the same whatever the window size.
+     */
+    private toBoardSpace(input: InputSnapshot): InputSnapshot {
+        const { width, height } = this.sim.level.level.board;
+        const aim = toLocalPoint(this.board, input.aimX, input.aimY);
+        const triggers: ActionTrigger[] = [];
+        input.triggers.forEach((trigger) => {
+            const local = toLocalPoint(this.board, trigger.x, trigger.y);
+            if (local.x < 0 || local.x > width || local.y < 0 || local.y > height) return;
+            triggers.push({ action: trigger.action, x: quantize(local.x), y: quantize(local.y) });
+        });
+
+        return {
+            ...input,
+            aimX: quantize(Math.max(0, Math.min(width, aim.x))),
+            aimY: quantize(Math.max(0, Math.min(height, aim.y))),
+            triggers,
+        };
+    }
+
+    // Steps the simulation and everything drawn alongside it. Returns true once the round has ended.
+    private simulate(dt: number, input: InputSnapshot): boolean {
+        const ended = this.sim.step(dt, input);
+        this.hud.update(dt);
+        this.particles.update(dt);
+        this.popups.update(dt);
+        return ended;
+    }
+
+    // Re-simulates up to the cursor without drawing, so seeking anywhere works by replaying from the start.
+    private startPlayback(replay: Replay, from?: ReplayCursor): void {
+        const player = new ReplayPlayer(replay);
+        this.player = player;
+        this.replayControls = new ReplayControls(this.game.i18n);
+        this.container.addChild(this.replayControls.container);
+        if (!from) return;
+
+        player.setSpeed(from.speed);
+        player.paused = from.paused;
+        const dt = 1 / STEPS_PER_SECOND;
+        const target = Math.min(from.tick, replay.ticks - 1);
+        this.sounds.muted = this.feel.muted = true;
+        while (player.currentTick < target) {
+            if (this.simulate(dt, player.next())) break;
+        }
+        this.sounds.muted = this.feel.muted = false;
+    }
+
+    private startDemo(demo: BotDemo, seed: number): void {
+        const strategy = botStrategies.get(demo.strategy);
+        this.bot = new Bot(strategy, BOT_SKILLS[demo.skill], this.sim, new Rng(hashString(`${seed}:bot`)));
+        this.sounds.muted = true;
+        this.demoLabel.anchor.set(0.5, 0.5);
+        this.container.addChild(this.demoLabel);
+    }
+
+    // The bot plays through the same input path as a person, so the demo is a real round.
+    private updateDemo(dt: number): void {
+        const human = this.game.input.current;
+        if (human.pressed.length > 0 || human.triggers.length > 0) {
+            this.leave();
+            return;
+        }
+
+        const input = this.bot!.next(dt);
+        this.boardInput = input;
+        this.simulate(dt, input);
+    }
+
+    // Leaves a demo, back to wherever it was started from.
+    private leave(): void {
+        const exit = this.exitTo || { scene: SceneNames.MainMenu };
+        this.game.scenes.change(exit.scene, exit.data);
+    }
+
+    private updatePlayback(dt: number): void {
+        const player = this.player!;
+        const controls = this.game.input.current;
+
+        if (wasPressed(controls, 'pause')) player.paused = !player.paused;
+        if (wasPressed(controls, 'aimUp')) player.changeSpeed(1);
+        if (wasPressed(controls, 'aimDown')) player.changeSpeed(-1);
+
+        let seekTo: number | null = null;
+        if (wasPressed(controls, 'aimLeft')) seekTo = player.currentTick - SEEK_TICKS;
+        if (wasPressed(controls, 'aimRight')) seekTo = player.currentTick + SEEK_TICKS;
+        const click = triggersOf(controls, 'pop')[0];
+        const fraction = click && this.replayControls ? this.replayControls.seekFraction(click.x, click.y) : null;
+        if (fraction !== null) seekTo = Math.round(fraction * player.replay.ticks);
+        if (seekTo !== null) {
+            this.seek(seekTo);
+            return;
+        }
+
+        for (let steps = player.stepsDue(); steps > 0 && !player.finished; steps--) {
+            if (this.simulate(dt, player.next())) return;
+        }
+    }
+
+    // The simulation can only run forwards, so seeking restarts the replay and fast-forwards to `tick`.
+    private seek(tick: number): void {
+        const player = this.player!;
+        const data: PlayData = {
+            replay: player.replay,
+            replayFrom: { tick: Math.max(0, tick), speed: player.speed, paused: player.paused },
+            exitTo: this.exitTo,
+        };
+        this.game.scenes.change(SceneNames.Play, data);
+    }
+
+    private finish(result: SimulationResult): void {
+        if (this.bot) {
+            this.ending = { data: null, remaining: ENDING_SECONDS };
+            this.feel.finale();
+            return;
+        }
+        const replay = this.player ? this.player.replay : this.recorder!.finish();
+        const data: GameOverData = {
+            seed: this.sim.random.seed,
+            levelId: this.sim.level.level.id,
+            cleared: result.cleared,
+            elapsed: result.elapsed,
+            score: result.score,
+            replay,
+            retry: this.player ? { levelId: replay.levelId, level: replay.level, exitTo: this.exitTo } : this.data,
+            exitTo: this.exitTo,
+        };
+        this.ending = { data, remaining: ENDING_SECONDS };
+        this.feel.finale();
+    }
+
+    // Lets shapes and particles play out after the round is decided. Nothing here affects the result.
+    private updateEnding(dt: number): void {
+        const ending = this.ending!;
+        this.sim.settle(dt);
+        this.particles.update(dt);
+        this.popups.update(dt);
+
+        ending.remaining -= dt;
+        if (ending.remaining > 0) return;
+        if (ending.data) this.game.scenes.change(SceneNames.GameOver, ending.data);
+        else this.leave();
+    }
+
+    private onSimulationEvent = (event: SimulationEvent): void => {
+        switch (event.type) {
+            case 'spawned': {
+                const view = ShapeView.acquire(event.shape, this.shapeStyle);
+                this.views.set(event.shape.id, view);
+                this.shapeLayer.addChild(view.graphics);
+                break;
+            }
+            case 'exploded': {
+                const shape = event.shape;
+                this.particles.explode(shape, particlePresets.get(shape.kind.explosion));
+                this.sounds.explosion(shape.radius);
+                this.feel.explosion(shape.radius);
+                this.releaseView(shape);
+                break;
+            }
+            case 'discarded':
+                this.releaseView(event.shape);
+                break;
+            case 'powerUpCollected':
+                this.sounds.powerUp();
+                break;
+            case 'bossArrived':
+                this.hud.showBanner(this.bossName(event.fight));
+                break;
+            case 'weakPointsExposed':
+                this.hud.showBanner(this.game.i18n.t('boss.weakPointsExposed'));
+                break;
+            case 'bossPhase':
+                this.hud.showBanner(this.game.i18n.t('boss.phase', { phase: event.phase + 1 }));
+                this.sounds.explosion(event.fight.radius);
+                this.feel.bossPhase();
+                break;
+            case 'bossDefeated':
+                this.feel.bossPhase();
+                this.hud.showBanner(this.game.i18n.t('boss.defeated', { name: this.bossName(event.fight) }));
+                break;
+            case 'finished':
+                this.finish(event.result);
+                break;
+        }
+    };
+
+    private bossName(fight: BossFight): string {
+        return this.game.i18n.label(`boss.${fight.boss.id}.name`, fight.boss.name);
+    }
+
+    // Draws the board the way the accessibility settings ask; runs again whenever they change.
+    private applyShapeStyle(style: ShapeStyle): void {
+        if (sameShapeStyle(style, this.shapeStyle)) return;
+        this.shapeStyle = style;
+        this.particles.palette = this.powerUpOverlay.palette = this.powerUpTray.palette = style.palette;
+        this.views.forEach((view) => view.restyle(style));
+    }
+
+    private releaseView(shape: Shape): void {
+        const view = this.views.get(shape.id);
+        if (view) {
+            view.release();
+            this.views.delete(shape.id);
+        }
+    }
+}
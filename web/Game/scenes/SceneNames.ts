@@ -0,0 +1,12 @@
+export const SceneNames = {
+    Boot: 'boot',
+    Loading: 'loading',
+    Title: 'title',
+    MainMenu: 'mainMenu',
+    Modes: 'modes',
+    Play: 'play',
+    Pause: 'pause',
+    Settings: 'settings',
+    GameOver: 'gameOver',
+    Editor: 'editor',
+} as const;
@@ -0,0 +1,271 @@
+import { Graphics, Text } from 'pixi.js';
+import { uiSound } from '../audio/sounds';
+import { Scene } from '../core/Scene';
+import { SCALE_MODES } from '../core/Viewport';
+import type { I18n } from '../i18n/I18n';
+import { detectLocale, LanguageChoice, LOCALE_IDS, LOCALES } from '../i18n/locale';
+import { DEFAULT_BINDINGS, GAME_ACTIONS, GameAction } from '../input/actions';
+import { wasPressed } from '../input/InputSnapshot';
+import type { GameSettings } from '../settings/SettingsStore';
+import { PALETTE_IDS } from '../shapes/palettes';
+import { Menu, MenuItem } from '../ui/Menu';
+import { createTitleStyle } from '../ui/styles';
+
+// Choosing a volume item steps through these, wrapping back to silence.
+const VOLUME_STEPS = [0, 0.2, 0.4, 0.6, 0.8, 1];
+// Likewise for effect intensities, wrapping back to off.
+const INTENSITY_STEPS = [0, 0.25, 0.5, 0.75, 1];
+
+type VolumeSetting = 'masterVolume' | 'sfxVolume' | 'musicVolume' | 'uiVolume';
+type IntensitySetting = 'shakeIntensity' | 'zoomIntensity' | 'hitStopIntensity' | 'slowMotionIntensity';
+type ToggleSetting = 'pauseOnBlur' | 'reduceMotion' | 'highContrast' | 'shapeGlyphs';
+
+// One line of a settings page. Choosing it applies `change` straight away.
+interface SettingItem {
+    label(settings: GameSettings, i18n: I18n): string;
+    change(settings: GameSettings): Partial<GameSettings>;
+}
+
+interface SettingsPage {
+    // Message key of the page's name.
+    title: string;
+    items: SettingItem[];
+}
+
+// "KeyE" reads better as "E", "ArrowLeft" as "Left".
+function keyName(code: string): string {
+    return code.replace(/^(Key|Digit|Arrow)/, '');
+}
+
+function keysFor(settings: GameSettings, action: GameAction): string[] {
+    return settings.keyBindings[action] || DEFAULT_BINDINGS.keys[action] || [];
+}
+
+// Reads "Name: On" or "Name: Off".
+function toggleLabel(i18n: I18n, name: string, on: boolean): string {
+    return i18n.t('settings.toggle', { name: i18n.t(name), on: String(on) });
+}
+
+function toggleItem(key: ToggleSetting): SettingItem {
+    return {
+        label: (settings, i18n) => toggleLabel(i18n, `settings.${key}`, settings[key]),
+        change: (settings) => ({ [key]: !settings[key] }),
+    };
+}
+
+// A percentage that steps through `steps` each time it's chosen.
+function percentItem(key: VolumeSetting | IntensitySetting, steps: number[]): SettingItem {
+    return {
+        label: (settings, i18n) => i18n.t('settings.percent', { name: i18n.t(`settings.${key}`), value: settings[key] }),
+        change: (settings) => {
+            const next = steps.find((step) => step > settings[key] + 0.001);
+            return { [key]: next !== undefined ? next : steps[0] };
+        },
+    };
+}
+
+function volumeItem(key: VolumeSetting): SettingItem {
+    return percentItem(key, VOLUME_STEPS);
+}
+
+function intensityItem(key: IntensitySetting): SettingItem {
+    return percentItem(key, INTENSITY_STEPS);
+}
+
+// Reads "Name: Value", where `value` is already translated.
+function choiceLabel(i18n: I18n, name: string, value: string): string {
+    return i18n.t('settings.choice', { name: i18n.t(name), value });
+}
+
+// Each language is listed in its own language, so players can find theirs whatever is showing.
+function languageItem(choice: LanguageChoice): SettingItem {
+    return {
+        label: (settings, i18n) => {
+            const name = choice === 'auto'
+                ? i18n.t('settings.language.auto', { language: LOCALES[detectLocale('auto')].name })
+                : LOCALES[choice].name;
+            return settings.language === choice ? `• ${name}` : name;
+        },
+        change: () => ({ language: choice }),
+    };
+}
+
+const PAGES: SettingsPage[] = [
+    {
+        title: 'settings.page.audio',
+        items: [
+            {
+                label: (settings, i18n) => toggleLabel(i18n, 'settings.sound', !settings.muted),
+                change: (settings) => ({ muted: !settings.muted }),
+            },
+            volumeItem('masterVolume'),
+            volumeItem('sfxVolume'),
+            volumeItem('musicVolume'),
+            volumeItem('uiVolume'),
+        ],
+    },
+    {
+        // Key rebinding items are added by the scene, since they wait for a key press.
+        title: 'settings.page.controls',
+        items: [
+            toggleItem('pauseOnBlur'),
+            { label: (_settings, i18n) => i18n.t('settings.resetKeys'), change: () => ({ keyBindings: {} }) },
+        ],
+    },
+    {
+        title: 'settings.page.accessibility',
+        items: [
+            toggleItem('reduceMotion'),
+            intensityItem('shakeIntensity'),
+            intensityItem('zoomIntensity'),
+            intensityItem('hitStopIntensity'),
+            intensityItem('slowMotionIntensity'),
+        ],
+    },
+    {
+        title: 'settings.page.colours',
+        items: [
+            {
+                label: (settings, i18n) =>
+                    choiceLabel(i18n, 'settings.palette', i18n.t(`palette.${settings.palette}`)),
+                change: (settings) => ({ palette: PALETTE_IDS[(PALETTE_IDS.indexOf(settings.palette) + 1) % PALETTE_IDS.length] }),
+            },
+            toggleItem('highContrast'),
+            toggleItem('shapeGlyphs'),
+        ],
+    },
+    {
+        title: 'settings.page.graphics',
+        items: [
+            {
+                label: (settings, i18n) => choiceLabel(i18n, 'settings.scaleMode', i18n.t(`scaleMode.${settings.scaleMode}`)),
+                change: (settings) => ({ scaleMode: SCALE_MODES[(SCALE_MODES.indexOf(settings.scaleMode) + 1) % SCALE_MODES.length] }),
+            },
+            {
+                label: (settings, i18n) => choiceLabel(i18n, 'settings.particleDetail', i18n.t(`particleDetail.${settings.particleDetail}`)),
+                change: (settings) => ({ particleDetail: settings.particleDetail === 'low' ? 'high' : 'low' }),
+            },
+        ],
+    },
+    {
+        title: 'settings.page.language',
+        items: (['auto'] as LanguageChoice[]).concat(LOCALE_IDS).map(languageItem),
+    },
+];
+
+/**
+ * Overlay for changing settings, pushed over whichever scene opened it. Shows the list of pages
+ * first; changes apply and save at once.
+ */
+export class SettingsScene extends Scene {
+    private readonly dim = new Graphics();
+    private readonly label = new Text({ text: '', style: createTitleStyle() });
+    private menu: Menu | null = null;
+    private page: SettingsPage | null = null;
+    // The action waiting for a key press, if any.
+    private rebinding: GameAction | null = null;
+    private width = 0;
+    private height = 0;
+
+    enter(): void {
+        this.label.anchor.set(0.5, 0.5);
+        this.container.addChild(this.dim, this.label);
+        this.showPage(null);
+    }
+
+    // Shows the same page again, keeping the focus, e.g. on the language the player just picked.
+    localize(): void {
+        this.showPage(this.page, this.menu ? this.menu.focused : 0);
+    }
+
+    exit(): void {
+        if (this.rebinding) this.game.input.listenForKey(null);
+    }
+
+    layout(width: number, height: number): void {
+        this.width = width;
+        this.height = height;
+        this.dim.clear().rect(0, 0, width, height).fill({ color: 0x000000, alpha: 0.7 });
+        this.label.position.set(width / 2, height / 8);
+        if (this.menu) this.menu.container.position.set(width / 2, height * 0.58);
+    }
+
+    update(): void {
+        if (this.rebinding || !this.menu) return;
+
+        const input = this.game.input.current;
+        if (wasPressed(input, 'pause')) {
+            if (this.page) this.showPage(null);
+            else this.game.scenes.pop();
+            return;
+        }
+        this.menu.update(input);
+    }
+
+    // Shows one page of settings, or the list of pages for null.
+    private showPage(page: SettingsPage | null, focus = 0): void {
+        const i18n = this.game.i18n;
+        this.page = page;
+        this.label.text = i18n.t(page ? page.title : 'settings.title');
+
+        let items: MenuItem[];
+        if (page) {
+            items = page.items.map((item) => this.settingMenuItem(item));
+            if (page.title === 'settings.page.controls') items = items.concat(GAME_ACTIONS.map((action) => this.keyMenuItem(action)));
+            items.push({ label: () => i18n.t('menu.back'), select: () => this.showPage(null, PAGES.indexOf(page)) });
+        } else {
+            items = PAGES.map((each) => ({ label: () => i18n.t(each.title), select: () => this.showPage(each) }));
+            items.push({ label: () => i18n.t('menu.back'), select: () => this.game.scenes.pop() });
+        }
+
+        if (this.menu) this.menu.container.destroy({ children: true });
+        const fontSize = items.length > 8 ? 18 : 22;
+        this.menu = new Menu(items, i18n, (cue) => this.game.audio.play('ui', uiSound(cue)), fontSize);
+        this.menu.focusOn(focus);
+        this.container.addChild(this.menu.container);
+        this.layout(this.width, this.height);
+    }
+
+    private settingMenuItem(item: SettingItem): MenuItem {
+        const settings = this.game.settings;
+        return {
+            label: (i18n) => item.label(settings.current, i18n),
+            select: () => {
+                settings.update(item.change(settings.current));
+                this.refreshLabels();
+            },
+        };
+    }
+
+    private keyMenuItem(action: GameAction): MenuItem {
+        return {
+            label: (i18n) => this.keyLabel(action, i18n),
+            select: () => this.rebind(action),
+        };
+    }
+
+    private keyLabel(action: GameAction, i18n: I18n): string {
+        const name = i18n.t(`action.${action}`);
+        if (this.rebinding === action) return i18n.t('settings.keyWaiting', { action: name });
+        return i18n.t('settings.keys', { action: name, keys: keysFor(this.game.settings.current, action).map(keyName).join(', ') });
+    }
+
+    // Waits for the next key press and makes it the only key for `action`. Escape cancels.
+    private rebind(action: GameAction): void {
+        this.rebinding = action;
+        this.refreshLabels();
+        this.game.input.listenForKey((code) => {
+            this.rebinding = null;
+            if (code !== 'Escape') {
+                const settings = this.game.settings;
+                settings.update({ keyBindings: { ...settings.current.keyBindings, [action]: [code] } });
+            }
+            this.refreshLabels();
+        });
+    }
+
+    // Labels depend on settings, and one change (e.g. resetting keys) can affect several of them.
+    private refreshLabels(): void {
+        if (this.menu) this.menu.refresh();
+    }
+}
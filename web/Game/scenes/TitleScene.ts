@@ -0,0 +1,129 @@
+import { Assets, Container, Text, Texture, TilingSprite } from 'pixi.js';
+import { Scene } from '../core/Scene';
+import { InputSnapshot } from '../input/InputSnapshot';
+import { createSeed } from '../random/RandomService';
+import { Rng } from '../random/Rng';
+import { createShape } from '../shapes/Shape';
+import { shapeKinds } from '../shapes/ShapeKindRegistry';
+import { shapeStyleOf } from '../shapes/palettes';
+import { ShapeView } from '../shapes/ShapeView';
+import { createBodyStyle, createTitleStyle } from '../ui/styles';
+import type { PlayData } from './PlayScene';
+import { SceneNames } from './SceneNames';
+
+const DRIFTING_SHAPES = 12;
+// How far, in px, and how fast each letter of the title bobs.
+const BOB_HEIGHT = 8;
+const BOB_SPEED = 3;
+// Seconds on the title with nobody touching anything before a bot starts playing as a demo.
+const ATTRACT_DELAY = 20;
+
+// Any fresh press, from any device, leaves the title screen.
+function anyPress(input: InputSnapshot): boolean {
+    return input.pressed.length > 0;
+}
+
+export class TitleScene extends Scene {
+    // One Text per letter so each can bob on its own.
+    private readonly title = new Container();
+    private readonly letters: Text[] = [];
+    private readonly prompt = new Text({ text: '', style: createBodyStyle() });
+    private readonly shapeLayer = new Container();
+    private readonly shapes: ShapeView[] = [];
+    private backdrop: TilingSprite | null = null;
+    private width = 0;
+    private height = 0;
+    private time = 0;
+
+    enter(): void {
+        // Drawn only once the textures bundle is in; the title works without it.
+        if (Assets.cache.has('backdrop')) {
+            const texture = Assets.get<Texture>('backdrop');
+            this.backdrop = new TilingSprite({ texture });
+            this.container.addChild(this.backdrop);
+        }
+
+        // Cosmetic only, so it doesn't need a reproducible seed.
+        const rng = new Rng(createSeed());
+        const kinds = shapeKinds.all();
+        const shapeStyle = shapeStyleOf(this.game.settings.current);
+        for (let i = 0; i < DRIFTING_SHAPES; i++) {
+            const view = ShapeView.acquire(createShape(rng.pick(kinds), rng.range(0, 640), rng.range(0, 480), rng.next), shapeStyle);
+            this.shapes.push(view);
+            this.shapeLayer.addChild(view.graphics);
+        }
+
+        this.shapeLayer.alpha = 0.5;
+
+        this.prompt.anchor.set(0.5, 0.5);
+        this.container.addChild(this.shapeLayer, this.title, this.prompt);
+    }
+
+    localize(): void {
+        const i18n = this.game.i18n;
+        this.prompt.text = i18n.t('title.prompt');
+
+        // Right-to-left scripts join their letters, so the title bobs as one piece there.
+        const title = i18n.t('game.title');
+        const pieces = i18n.direction === 'rtl' ? [title] : Array.from(title);
+        this.title.removeChildren().forEach((letter) => letter.destroy());
+        this.letters.length = 0;
+
+        const style = createTitleStyle(48);
+        let x = 0;
+        pieces.forEach((piece) => {
+            const letter = new Text({ text: piece, style });
+            letter.anchor.set(0, 0.5);
+            letter.x = x;
+            x += letter.width;
+            this.letters.push(letter);
+            this.title.addChild(letter);
+        });
+        this.title.pivot.x = x / 2;
+    }
+
+    layout(width: number, height: number): void {
+        this.width = width;
+        this.height = height;
+        if (this.backdrop) this.backdrop.setSize(width, height);
+        this.title.position.set(width / 2, height * 0.3);
+        this.prompt.position.set(width / 2, height * 0.7);
+    }
+
+    exit(): void {
+        this.shapes.forEach((view) => view.release());
+        this.shapes.length = 0;
+    }
+
+    update(dt: number): void {
+        this.time += dt;
+
+        if (!this.game.settings.current.reduceMotion) {
+            this.shapes.forEach((view) => {
+                view.shape.step(dt);
+                view.shape.bounce(this.width, this.height);
+            });
+        }
+
+        if (anyPress(this.game.input.current)) {
+            this.game.scenes.change(SceneNames.MainMenu);
+        } else if (this.time >= ATTRACT_DELAY && !this.game.settings.current.reduceMotion) {
+            const demo: PlayData = {
+                levelId: 'arcade',
+                demo: { strategy: 'lookahead', skill: 'average' },
+                exitTo: { scene: SceneNames.Title },
+            };
+            this.game.scenes.change(SceneNames.Play, demo);
+        }
+    }
+
+    render(alpha: number): void {
+        const still = this.game.settings.current.reduceMotion;
+        this.letters.forEach((letter, index) => {
+            letter.y = still ? 0 : Math.sin(this.time * BOB_SPEED - index * 0.5) * BOB_HEIGHT;
+        });
+        this.shapes.forEach((view) => view.sync(alpha));
+        this.prompt.alpha = still ? 1 : 0.6 + 0.4 * Math.sin(this.time * 4);
+        if (this.backdrop && !still) this.backdrop.tilePosition.set(this.time * 12, this.time * 8);
+    }
+}
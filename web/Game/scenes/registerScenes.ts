@@ -0,0 +1,25 @@
+import type { Game } from '../core/Game';
+import { BootScene } from './BootScene';
+import { GameOverScene } from './GameOverScene';
+import { LoadingScene } from './LoadingScene';
+import { MainMenuScene } from './MainMenuScene';
+import { ModesScene } from './ModesScene';
+import { PauseScene } from './PauseScene';
+import { PlayScene } from './PlayScene';
+import { SceneNames } from './SceneNames';
+import { SettingsScene } from './SettingsScene';
+import { TitleScene } from './TitleScene';
+
+// Registers the scenes every host of the game runtime needs.
+export function registerGameScenes(game: Game): void {
+    game.scenes
+        .register(SceneNames.Boot, (g) => new BootScene(g))
+        .register(SceneNames.Loading, (g) => new LoadingScene(g))
+        .register(SceneNames.Title, (g) => new TitleScene(g))
+        .register(SceneNames.MainMenu, (g) => new MainMenuScene(g))
+        .register(SceneNames.Modes, (g) => new ModesScene(g))
+        .register(SceneNames.Play, (g) => new PlayScene(g))
+        .register(SceneNames.Pause, (g) => new PauseScene(g))
+        .register(SceneNames.Settings, (g) => new SettingsScene(g))
+        .register(SceneNames.GameOver, (g) => new GameOverScene(g));
+}
@@ -0,0 +1,146 @@
+import { SCALE_MODES, ScaleMode } from '../core/Viewport';
+import { LanguageChoice, LOCALE_IDS } from '../i18n/locale';
+import type { GameAction } from '../input/actions';
+import { PALETTE_IDS, PaletteId } from '../shapes/palettes';
+
+export type ParticleDetail = 'high' | 'low';
+
+export const PARTICLE_DETAILS: ParticleDetail[] = ['high', 'low'];
+
+// Player preferences that outlive a session.
+export interface GameSettings {
+    // Pause when the window loses focus. Hiding the tab always pauses.
+    pauseOnBlur: boolean;
+    // Volumes from 0 to 1. Each bus is scaled by the master volume.
+    masterVolume: number;
+    sfxVolume: number;
+    musicVolume: number;
+    uiVolume: number;
+    muted: boolean;
+    // How the virtual screen is fitted to the window.
+    scaleMode: ScaleMode;
+    // Fewer explosion particles, for slower devices.
+    particleDetail: ParticleDetail;
+    // Tones down decorative animation such as bobbing titles, and turns off every effect below.
+    reduceMotion: boolean;
+    // Strength of each game-feel effect, 0 (off) to 1.
+    shakeIntensity: number;
+    zoomIntensity: number;
+    hitStopIntensity: number;
+    slowMotionIntensity: number;
+    // Colours for shapes and power-ups, tuned for a kind of colour blindness.
+    palette: PaletteId;
+    // Thick dark outlines with a light halo around shapes.
+    highContrast: boolean;
+    // A mark on each shape that tells its kind apart without colour.
+    shapeGlyphs: boolean;
+    // Language of the game's text; 'auto' follows the browser. The React shell reads it too.
+    language: LanguageChoice;
+    // Keyboard keys the player rebound, by action. Actions missing here keep their default keys.
+    keyBindings: Partial<Record<GameAction, string[]>>;
+}
+
+export const DEFAULT_SETTINGS: GameSettings = {
+    pauseOnBlur: true,
+    masterVolume: 0.8,
+    sfxVolume: 1,
+    musicVolume: 0.6,
+    uiVolume: 0.8,
+    muted: false,
+    scaleMode: 'letterbox',
+    particleDetail: 'high',
+    reduceMotion: false,
+    shakeIntensity: 1,
+    zoomIntensity: 1,
+    hitStopIntensity: 1,
+    slowMotionIntensity: 1,
+    palette: 'default',
+    highContrast: false,
+    shapeGlyphs: false,
+    language: 'auto',
+    keyBindings: {},
+};
+
+const STORAGE_KEY = 'shapesplosion.settings';
+
+// The values allowed for settings that are one of a few names.
+const CHOICES: Partial<Record<keyof GameSettings, readonly string[]>> = {
+    scaleMode: SCALE_MODES,
+    particleDetail: PARTICLE_DETAILS,
+    palette: PALETTE_IDS,
+    language: (['auto'] as string[]).concat(LOCALE_IDS),
+};
+
+export type SettingsListener = (settings: GameSettings) => void;
+
+/**
+ * Holds the current settings and writes every change to local storage.
+ * Each signed-in player, the `owner`, has an entry of their own, so accounts sharing a browser keep
+ * their own settings; without an owner the browser's shared entry is used. They aren't synced between
+ * devices. Storage can be missing or blocked (private browsing, Node); settings then only last for the session.
+ */
+export class SettingsStore {
+    private settings: GameSettings;
+    private readonly listeners = new Set<SettingsListener>();
+    private readonly storageKey: string;
+
+    constructor(
+        owner: string | null = null,
+        private readonly storage: Storage | null = typeof localStorage !== 'undefined' ? localStorage : null,
+    ) {
+        this.storageKey = owner ? `${STORAGE_KEY}.${owner}` : STORAGE_KEY;
+        this.settings = { ...DEFAULT_SETTINGS, ...this.read() };
+    }
+
+    get current(): GameSettings {
+        return this.settings;
+    }
+
+    update(patch: Partial<GameSettings>): void {
+        this.settings = { ...this.settings, ...patch };
+        this.write();
+        this.listeners.forEach((listener) => listener(this.settings));
+    }
+
+    // Calls `listener` after every change. Returns a function that unsubscribes it.
+    subscribe(listener: SettingsListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Only keeps stored values whose type matches the default and, for named choices, that are still one
+     * of them, so stale or hand-edited entries are ignored.
+     */
+    private read(): Partial<GameSettings> {
+        if (!this.storage) return {};
+        try {
+            const stored: unknown = JSON.parse(this.storage.getItem(this.storageKey) || '{}');
+            if (typeof stored !== 'object' || stored === null) return {};
+
+            const result: Record<string, unknown> = {};
+            const defaults = DEFAULT_SETTINGS as unknown as Record<string, unknown>;
+            Object.keys(defaults).forEach((key) => {
+                const value = (stored as Record<string, unknown>)[key];
+                const choices = CHOICES[key as keyof GameSettings];
+                if (typeof value !== typeof defaults[key]) return;
+                if (choices && choices.indexOf(value as string) === -1) return;
+                result[key] = value;
+            });
+            return result as Partial<GameSettings>;
+        } catch {
+            return {};
+        }
+    }
+
+    private write(): void {
+        if (!this.storage) return;
+        try {
+            this.storage.setItem(this.storageKey, JSON.stringify(this.settings));
+        } catch {
+            // Quota exceeded or storage disabled; the in-memory settings still apply.
+        }
+    }
+}
@@ -0,0 +1,108 @@
+import type { CollisionBody } from '../collision/CollisionWorld';
+import { isConvex } from '../collision/sat';
+import { buildOutline, outlineRadius, randomBetween, RandomFn } from './geometry';
+import type { ShapeKind } from './ShapeKind';
+
+let nextShapeId = 1;
+
+/**
+ * A live shape in the play field. Holds simulation state only; `ShapeView` draws it.
+ *
+ * The previous position and rotation are kept so views can interpolate between fixed steps.
+ */
+export class Shape implements CollisionBody {
+    readonly id = nextShapeId++;
+    readonly outline: number[];
+    readonly radius: number;
+    readonly circle: boolean;
+    readonly convex: boolean;
+    maxHitPoints: number;
+    readonly points: number;
+
+    x: number;
+    y: number;
+    prevX: number;
+    prevY: number;
+    vx = 0;
+    vy = 0;
+    rotation = 0;
+    prevRotation = 0;
+    spin = 0;
+    hitPoints: number;
+    alive = true;
+    // Shielded shapes shrug off all damage, e.g. boss parts that can't be broken yet.
+    shielded = false;
+
+    constructor(readonly kind: ShapeKind, x: number, y: number, outline: number[]) {
+        this.x = this.prevX = x;
+        this.y = this.prevY = y;
+        this.outline = outline;
+        this.radius = outlineRadius(outline);
+        this.circle = kind.geometry === 'circle';
+        this.convex = this.circle || isConvex(outline);
+        this.hitPoints = this.maxHitPoints = kind.hitPoints;
+        this.points = kind.points;
+    }
+
+    step(dt: number): void {
+        this.prevX = this.x;
+        this.prevY = this.y;
+        this.prevRotation = this.rotation;
+
+        this.x += this.vx * dt;
+        this.y += this.vy * dt;
+        this.rotation += this.spin * dt;
+    }
+
+    // Keeps the shape inside a width x height box by reflecting its velocity off the walls.
+    bounce(width: number, height: number): void {
+        if (this.x < this.radius) {
+            this.x = this.radius;
+            this.vx = Math.abs(this.vx);
+        } else if (this.x > width - this.radius) {
+            this.x = width - this.radius;
+            this.vx = -Math.abs(this.vx);
+        }
+
+        if (this.y < this.radius) {
+            this.y = this.radius;
+            this.vy = Math.abs(this.vy);
+        } else if (this.y > height - this.radius) {
+            this.y = height - this.radius;
+            this.vy = -Math.abs(this.vy);
+        }
+    }
+
+    // Scales speed and hit points, e.g. to ramp difficulty. Hit points stay whole.
+    scaleDifficulty(speedScale: number, toughnessScale: number): void {
+        this.vx *= speedScale;
+        this.vy *= speedScale;
+        this.spin *= speedScale;
+        this.hitPoints = this.maxHitPoints = Math.max(1, Math.round(this.kind.hitPoints * toughnessScale));
+    }
+
+    // Returns true if this hit destroyed the shape.
+    damage(amount = 1): boolean {
+        if (!this.alive || this.shielded) return false;
+        this.hitPoints -= amount;
+        if (this.hitPoints <= 0) {
+            this.hitPoints = 0;
+            this.alive = false;
+        }
+        return !this.alive;
+    }
+}
+
+// Creates a shape of `kind` at (x, y) heading in a random direction at a speed and spin from the kind's ranges.
+export function createShape(kind: ShapeKind, x: number, y: number, random: RandomFn): Shape {
+    const shape = new Shape(kind, x, y, buildOutline(kind, random));
+
+    const heading = random() * Math.PI * 2;
+    const speed = randomBetween(kind.speed, random);
+    shape.vx = Math.cos(heading) * speed;
+    shape.vy = Math.sin(heading) * speed;
+    shape.spin = randomBetween(kind.spin, random);
+    shape.rotation = shape.prevRotation = random() * Math.PI * 2;
+
+    return shape;
+}
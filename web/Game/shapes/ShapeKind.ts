@@ -0,0 +1,149 @@
+import { isRecord, readNumber, readRange, readString } from '../data/readers';
+import { hashString } from '../random/Rng';
+
+export type ShapeGeometry = 'circle' | 'polygon' | 'star' | 'irregular';
+
+// Marks drawn on shapes when glyphs are turned on, so kinds can be told apart without colour.
+export type ShapeGlyph = 'dot' | 'ring' | 'cross' | 'plus' | 'bar' | 'chevron' | 'diamond' | 'square';
+
+export const SHAPE_GLYPHS: ShapeGlyph[] = ['dot', 'ring', 'cross', 'plus', 'bar', 'chevron', 'diamond', 'square'];
+
+export interface ShapeStroke {
+    color: string;
+    width: number;
+}
+
+// How a destroyed shape detonates its neighbours.
+export interface ShapeBlast {
+    // Reach of the blast in px, measured from the shape's centre.
+    radius: number;
+    // Seconds between the shape being destroyed and its blast going off.
+    delay: number;
+    // Damage dealt at the centre of the blast.
+    damage: number;
+    // Fraction of the damage lost by the edge of the blast: 0 is flat, 1 fades to nothing.
+    falloff: number;
+}
+
+/**
+ * Everything needed to build a shape, as plain data.
+ * New kinds are added to `shapeKinds.json` (or registered at runtime) rather than written as code.
+ */
+export interface ShapeKind {
+    id: string;
+    geometry: ShapeGeometry;
+    // Corners of a polygon or points of a star. For circles, the number of segments used for hit testing.
+    sides: number;
+    radius: number;
+    // Radius of a star's inner corners, as a fraction of `radius`.
+    innerRadius: number;
+    // How far each corner may be pushed in or out, as a fraction of `radius`.
+    jitter: number;
+    // Gradient stops, from top to bottom.
+    fill: string[];
+    stroke: ShapeStroke;
+    // Left out of the data, one is picked from the id, so it is stable but may repeat another kind's.
+    glyph: ShapeGlyph;
+    hitPoints: number;
+    points: number;
+    // Ranges the spawned shape's speed (px/s) and spin (rad/s) are picked from.
+    speed: [number, number];
+    spin: [number, number];
+    // Id of the particle preset played when the shape is destroyed.
+    explosion: string;
+    blast: ShapeBlast;
+}
+
+const GEOMETRIES: ShapeGeometry[] = ['circle', 'polygon', 'star', 'irregular'];
+
+const DEFAULTS: Omit<ShapeKind, 'id' | 'geometry' | 'glyph'> = {
+    sides: 16,
+    radius: 20,
+    innerRadius: 0.5,
+    jitter: 0,
+    fill: ['#ffffff', '#00ff99'],
+    stroke: { color: '#4a1850', width: 3 },
+    hitPoints: 1,
+    points: 10,
+    speed: [40, 80],
+    spin: [0, 0],
+    explosion: 'default',
+    blast: { radius: 60, delay: 0.15, damage: 2, falloff: 0.5 },
+};
+
+// Checks a shape kind loaded from data and fills in defaults for anything left out.
+export function parseShapeKind(raw: unknown, path = 'shapeKind'): ShapeKind {
+    if (!isRecord(raw)) throw new Error(`${path} must be an object`);
+
+    if (typeof raw.id !== 'string' || raw.id === '') throw new Error(`${path}.id must be a non-empty string`);
+
+    const geometry = raw.geometry as ShapeGeometry;
+    if (GEOMETRIES.indexOf(geometry) === -1) {
+        throw new Error(`${path}.geometry must be one of ${GEOMETRIES.join(', ')}`);
+    }
+
+    let fill = DEFAULTS.fill;
+    if (raw.fill !== undefined) {
+        if (!Array.isArray(raw.fill) || raw.fill.length === 0 || raw.fill.some((c) => typeof c !== 'string')) {
+            throw new Error(`${path}.fill must be a non-empty array of colour strings`);
+        }
+        fill = raw.fill as string[];
+    }
+
+    let stroke = DEFAULTS.stroke;
+    if (raw.stroke !== undefined) {
+        if (!isRecord(raw.stroke) || typeof raw.stroke.color !== 'string') {
+            throw new Error(`${path}.stroke must be { color, width }`);
+        }
+        stroke = {
+            color: raw.stroke.color,
+            width: readNumber(raw.stroke, 'width', DEFAULTS.stroke.width, `${path}.stroke`),
+        };
+    }
+
+    let glyph = SHAPE_GLYPHS[hashString(raw.id) % SHAPE_GLYPHS.length];
+    if (raw.glyph !== undefined) {
+        if (SHAPE_GLYPHS.indexOf(raw.glyph as ShapeGlyph) === -1) {
+            throw new Error(`${path}.glyph must be one of ${SHAPE_GLYPHS.join(', ')}`);
+        }
+        glyph = raw.glyph as ShapeGlyph;
+    }
+
+    let blast = DEFAULTS.blast;
+    if (raw.blast !== undefined) {
+        if (!isRecord(raw.blast)) throw new Error(`${path}.blast must be an object`);
+        blast = {
+            radius: readNumber(raw.blast, 'radius', DEFAULTS.blast.radius, `${path}.blast`),
+            delay: readNumber(raw.blast, 'delay', DEFAULTS.blast.delay, `${path}.blast`),
+            damage: readNumber(raw.blast, 'damage', DEFAULTS.blast.damage, `${path}.blast`),
+            falloff: readNumber(raw.blast, 'falloff', DEFAULTS.blast.falloff, `${path}.blast`),
+        };
+    }
+
+    const kind: ShapeKind = {
+        id: raw.id,
+        geometry,
+        sides: Math.round(readNumber(raw, 'sides', DEFAULTS.sides, path)),
+        radius: readNumber(raw, 'radius', DEFAULTS.radius, path),
+        innerRadius: readNumber(raw, 'innerRadius', DEFAULTS.innerRadius, path),
+        jitter: readNumber(raw, 'jitter', DEFAULTS.jitter, path),
+        fill,
+        stroke,
+        glyph,
+        hitPoints: readNumber(raw, 'hitPoints', DEFAULTS.hitPoints, path),
+        points: readNumber(raw, 'points', DEFAULTS.points, path),
+        speed: readRange(raw, 'speed', DEFAULTS.speed, path),
+        spin: readRange(raw, 'spin', DEFAULTS.spin, path),
+        explosion: readString(raw, 'explosion', DEFAULTS.explosion, path),
+        blast,
+    };
+
+    if (kind.sides < 3) throw new Error(`${path}.sides must be at least 3`);
+    if (kind.radius <= 0) throw new Error(`${path}.radius must be positive`);
+    if (kind.hitPoints <= 0) throw new Error(`${path}.hitPoints must be positive`);
+    if (kind.blast.radius < 0 || kind.blast.delay < 0) throw new Error(`${path}.blast radius and delay must not be negative`);
+    if (kind.jitter < 0 || kind.jitter > 1) throw new Error(`${path}.jitter must be between 0 and 1`);
+    if (kind.blast.falloff < 0 || kind.blast.falloff > 1) throw new Error(`${path}.blast.falloff must be between 0 and 1`);
+
+    return kind;
+}
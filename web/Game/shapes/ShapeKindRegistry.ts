@@ -0,0 +1,47 @@
+import shapeKindData from './shapeKinds.json';
+import { parseShapeKind, ShapeKind } from './ShapeKind';
+
+export class ShapeKindRegistry {
+    private readonly kinds = new Map<string, ShapeKind>();
+    private readonly order: string[] = [];
+
+    // Accepts raw data (e.g. parsed JSON) so designers can add kinds without touching code.
+    register(raw: unknown): ShapeKind {
+        const kind = parseShapeKind(raw, `shapeKind[${this.order.length}]`);
+        if (!this.kinds.has(kind.id)) this.order.push(kind.id);
+        this.kinds.set(kind.id, kind);
+        return kind;
+    }
+
+    registerAll(raw: unknown[]): void {
+        raw.forEach((entry) => this.register(entry));
+    }
+
+    has(id: string): boolean {
+        return this.kinds.has(id);
+    }
+
+    get(id: string): ShapeKind {
+        const kind = this.kinds.get(id);
+        if (!kind) throw new Error(`Unknown shape kind "${id}"`);
+        return kind;
+    }
+
+    // A copy that can take extra kinds (e.g. a level's own) without changing this registry.
+    clone(): ShapeKindRegistry {
+        const copy = new ShapeKindRegistry();
+        this.order.forEach((id) => {
+            copy.kinds.set(id, this.kinds.get(id) as ShapeKind);
+            copy.order.push(id);
+        });
+        return copy;
+    }
+
+    all(): ShapeKind[] {
+        return this.order.map((id) => this.kinds.get(id) as ShapeKind);
+    }
+}
+
+// The built-in kinds shipped with the game.
+export const shapeKinds = new ShapeKindRegistry();
+shapeKinds.registerAll(shapeKindData);
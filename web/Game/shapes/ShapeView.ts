@@ -0,0 +1,175 @@
+import { Color, FillGradient, Graphics } from 'pixi.js';
+import { Pool } from '../core/Pool';
+import type { Shape } from './Shape';
+import type { ShapeGlyph, ShapeKind } from './ShapeKind';
+import { DEFAULT_SHAPE_STYLE, PaletteId, shapeFill, ShapeStyle } from './palettes';
+
+// Builds the vertical gradient for a shape kind, the same way the title text builds its fill.
+export function createShapeFill(kind: ShapeKind, palette: PaletteId = 'default'): FillGradient {
+    const fill = new FillGradient(0, 0, 0, 1);
+
+    const colors = shapeFill(kind, palette).map((color) => Color.shared.setValue(color).toNumber());
+
+    colors.forEach((number, index) =>
+    {
+        const ratio = colors.length > 1 ? index / (colors.length - 1) : 0;
+
+        fill.addColorStop(ratio, number);
+    });
+
+    return fill;
+}
+
+// High-contrast outlines: a dark edge at least this wide, inside a light halo this much wider.
+const CONTRAST_STROKE = 3;
+const CONTRAST_HALO = 6;
+const CONTRAST_DARK = 0x000000;
+const CONTRAST_LIGHT = 0xffffff;
+
+// Glyphs are dark marks with a light rim, so they read on light and dark fills alike.
+const GLYPH_INK = 0x111111;
+const GLYPH_RIM = 0xffffff;
+
+function traceOutline(graphics: Graphics, shape: Shape): Graphics {
+    return shape.kind.geometry === 'circle' ? graphics.circle(0, 0, shape.kind.radius) : graphics.poly(shape.outline, true);
+}
+
+// Adds the path of `glyph`, `size` px from centre to tip. Returns whether the path is drawn as lines or filled.
+function traceGlyph(graphics: Graphics, glyph: ShapeGlyph, size: number): 'line' | 'solid' {
+    switch (glyph) {
+        case 'dot':
+            graphics.circle(0, 0, size * 0.45);
+            return 'solid';
+        case 'ring':
+            graphics.circle(0, 0, size * 0.6);
+            return 'line';
+        case 'cross':
+            graphics.moveTo(-size * 0.7, -size * 0.7).lineTo(size * 0.7, size * 0.7);
+            graphics.moveTo(size * 0.7, -size * 0.7).lineTo(-size * 0.7, size * 0.7);
+            return 'line';
+        case 'plus':
+            graphics.moveTo(-size, 0).lineTo(size, 0).moveTo(0, -size).lineTo(0, size);
+            return 'line';
+        case 'bar':
+            graphics.moveTo(-size, 0).lineTo(size, 0);
+            return 'line';
+        case 'chevron':
+            graphics.moveTo(-size, size * 0.4).lineTo(0, -size * 0.5).lineTo(size, size * 0.4);
+            return 'line';
+        case 'diamond':
+            graphics.poly([0, -size, size * 0.7, 0, 0, size, -size * 0.7, 0], true);
+            return 'solid';
+        case 'square':
+            graphics.rect(-size * 0.55, -size * 0.55, size * 1.1, size * 1.1);
+            return 'solid';
+    }
+}
+
+function drawGlyph(graphics: Graphics, kind: ShapeKind): void {
+    // Stars are thin near the middle; keep their glyph inside the inner corners.
+    const reach = kind.geometry === 'star' ? Math.min(0.4, kind.innerRadius * 0.7) : 0.4;
+    const size = kind.radius * reach;
+    const width = Math.max(2, size * 0.3);
+
+    // Pixi can't stroke one path twice, so the rim and the ink each trace it.
+    if (traceGlyph(graphics, kind.glyph, size) === 'line') {
+        graphics.stroke({ color: GLYPH_RIM, width: width + 3, cap: 'round', join: 'round' });
+        traceGlyph(graphics, kind.glyph, size);
+        graphics.stroke({ color: GLYPH_INK, width, cap: 'round', join: 'round' });
+    } else {
+        graphics.stroke({ color: GLYPH_RIM, width: 3, join: 'round' });
+        traceGlyph(graphics, kind.glyph, size);
+        graphics.fill(GLYPH_INK);
+    }
+}
+
+// Draws a shape into `graphics`, centred on its local origin, the way `style` asks.
+export function drawShape(graphics: Graphics, shape: Shape, style: ShapeStyle = DEFAULT_SHAPE_STYLE): Graphics {
+    const kind = shape.kind;
+
+    if (style.highContrast) {
+        const width = Math.max(kind.stroke.width, CONTRAST_STROKE);
+        traceOutline(graphics, shape).stroke({ color: CONTRAST_LIGHT, width: width + CONTRAST_HALO, join: 'round' });
+        traceOutline(graphics, shape)
+            .fill(createShapeFill(kind, style.palette))
+            .stroke({ color: CONTRAST_DARK, width, join: 'round' });
+    } else {
+        traceOutline(graphics, shape)
+            .fill(createShapeFill(kind, style.palette))
+            .stroke({ color: kind.stroke.color, width: kind.stroke.width, join: 'round' });
+    }
+
+    if (style.glyphs) drawGlyph(graphics, kind);
+    return graphics;
+}
+
+const SHIELDED_ALPHA = 0.45;
+
+// Draws a live shape. Views are pooled: take one with `acquire` and hand it back with `release`.
+export class ShapeView {
+    // Shared by every scene that shows shapes, so spawning a shape reuses a graphics object where it can.
+    private static readonly pool = new Pool<ShapeView>({
+        name: 'shapeViews',
+        create: () => new ShapeView(),
+        reset: (view) => view.reset(),
+        dispose: (view) => view.graphics.destroy(),
+        maxFree: 200,
+        leakWarning: 500,
+    });
+
+    readonly graphics = new Graphics();
+    private drawn: Shape | null = null;
+
+    // Takes a view from the shared pool and draws `shape` into it.
+    static acquire(shape: Shape, style: ShapeStyle = DEFAULT_SHAPE_STYLE): ShapeView {
+        const view = ShapeView.pool.acquire();
+        view.drawn = shape;
+        drawShape(view.graphics, shape, style);
+        view.sync(1);
+        return view;
+    }
+
+    // Builds objects for the pool up front, e.g. before a round starts.
+    static prewarm(count: number): void {
+        ShapeView.pool.prewarm(count);
+    }
+
+    // Dev builds warn if any views are still out.
+    static checkLeaks(): void {
+        ShapeView.pool.checkLeaks();
+    }
+
+    private constructor() {}
+
+    get shape(): Shape {
+        if (!this.drawn) throw new Error('ShapeView used after being released');
+        return this.drawn;
+    }
+
+    // Places the graphics between the shape's previous and current step.
+    sync(alpha: number): void {
+        const shape = this.shape;
+        this.graphics.x = shape.prevX + (shape.x - shape.prevX) * alpha;
+        this.graphics.y = shape.prevY + (shape.y - shape.prevY) * alpha;
+        this.graphics.rotation = shape.prevRotation + (shape.rotation - shape.prevRotation) * alpha;
+        this.graphics.alpha = shape.shielded ? SHIELDED_ALPHA : 1;
+    }
+
+    // Draws the shape again, e.g. after the accessibility settings changed.
+    restyle(style: ShapeStyle): void {
+        drawShape(this.graphics.clear(), this.shape, style);
+    }
+
+    release(): void {
+        ShapeView.pool.release(this);
+    }
+
+    private reset(): void {
+        this.drawn = null;
+        this.graphics.removeFromParent();
+        this.graphics.clear();
+        this.graphics.position.set(0, 0);
+        this.graphics.rotation = 0;
+        this.graphics.alpha = 1;
+    }
+}
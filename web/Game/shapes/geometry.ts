@@ -0,0 +1,52 @@
+import type { ShapeKind } from './ShapeKind';
+
+export type RandomFn = () => number;
+
+/**
+ * Builds a shape's outline in local space, centred on the origin, as a flat [x0, y0, x1, y1, ...] list.
+ * Circles get a regular polygon approximation so collision code can treat every shape as a polygon.
+ */
+export function buildOutline(kind: ShapeKind, random: RandomFn): number[] {
+    const points: number[] = [];
+    const sides = kind.sides;
+    // Start at the top so a triangle points up and a square sits flat.
+    const start = -Math.PI / 2 + (sides % 2 === 0 ? Math.PI / sides : 0);
+
+    if (kind.geometry === 'star') {
+        for (let i = 0; i < sides * 2; i++) {
+            const angle = start + (i * Math.PI) / sides;
+            const r = kind.radius * (i % 2 === 0 ? 1 : kind.innerRadius) * jitterScale(kind, random);
+            points.push(Math.cos(angle) * r, Math.sin(angle) * r);
+        }
+        return points;
+    }
+
+    for (let i = 0; i < sides; i++) {
+        let angle = start + (i * 2 * Math.PI) / sides;
+        if (kind.geometry === 'irregular') {
+            // Nudge each corner along the rim too, but never past its neighbours.
+            angle += (random() - 0.5) * (Math.PI / sides);
+        }
+        const r = kind.radius * jitterScale(kind, random);
+        points.push(Math.cos(angle) * r, Math.sin(angle) * r);
+    }
+    return points;
+}
+
+function jitterScale(kind: ShapeKind, random: RandomFn): number {
+    if (kind.jitter <= 0 || kind.geometry === 'circle') return 1;
+    return 1 + (random() * 2 - 1) * kind.jitter;
+}
+
+// Largest distance from the origin to any corner of an outline.
+export function outlineRadius(outline: number[]): number {
+    let max = 0;
+    for (let i = 0; i < outline.length; i += 2) {
+        max = Math.max(max, Math.sqrt(outline[i] * outline[i] + outline[i + 1] * outline[i + 1]));
+    }
+    return max;
+}
+
+export function randomBetween(range: [number, number], random: RandomFn): number {
+    return range[0] + (range[1] - range[0]) * random();
+}
@@ -0,0 +1,89 @@
+import { hashString } from '../random/Rng';
+import type { GameSettings } from '../settings/SettingsStore';
+import type { ShapeKind } from './ShapeKind';
+
+export type PaletteId = 'default' | 'deuteranopia' | 'protanopia' | 'tritanopia';
+
+export const PALETTE_IDS: PaletteId[] = ['default', 'deuteranopia', 'protanopia', 'tritanopia'];
+
+/**
+ * Colours that stay apart for one kind of colour blindness. Shape kinds and power-ups (by their shape
+ * kind id) listed in `colors` get that colour; anything else, such as a level's own kinds, gets one
+ * from `fallback` picked by its id. Each is named by the `palette.<id>` message.
+ */
+export interface Palette {
+    colors: Record<string, string>;
+    fallback: string[];
+}
+
+// Built from the Okabe-Ito and Tol sets, which are chosen to survive each deficiency.
+export const PALETTES: Record<PaletteId, Palette> = {
+    default: { colors: {}, fallback: [] },
+    deuteranopia: {
+        colors: {
+            circle: '#d55e00',
+            triangle: '#f0e442',
+            square: '#56b4e9',
+            hexagon: '#0072b2',
+            star: '#e69f00',
+            shard: '#cc79a7',
+        },
+        fallback: ['#d55e00', '#f0e442', '#56b4e9', '#0072b2', '#e69f00', '#cc79a7', '#009e73'],
+    },
+    protanopia: {
+        colors: {
+            circle: '#ffb000',
+            triangle: '#f0e442',
+            square: '#648fff',
+            hexagon: '#1a2a80',
+            star: '#fe6100',
+            shard: '#dc267f',
+        },
+        fallback: ['#ffb000', '#f0e442', '#648fff', '#1a2a80', '#fe6100', '#dc267f', '#785ef0'],
+    },
+    tritanopia: {
+        colors: {
+            circle: '#cc3311',
+            triangle: '#ee3377',
+            square: '#009988',
+            hexagon: '#33bbee',
+            star: '#ee7733',
+            shard: '#555555',
+        },
+        fallback: ['#cc3311', '#ee3377', '#009988', '#33bbee', '#ee7733', '#555555'],
+    },
+};
+
+// How shapes are drawn, from the player's accessibility settings.
+export interface ShapeStyle {
+    palette: PaletteId;
+    // Thick dark outlines with a light halo, so shapes stand out from any background.
+    highContrast: boolean;
+    // Draws each kind's glyph on its shapes.
+    glyphs: boolean;
+}
+
+export const DEFAULT_SHAPE_STYLE: ShapeStyle = { palette: 'default', highContrast: false, glyphs: false };
+
+export function shapeStyleOf(settings: GameSettings): ShapeStyle {
+    return { palette: settings.palette, highContrast: settings.highContrast, glyphs: settings.shapeGlyphs };
+}
+
+export function sameShapeStyle(a: ShapeStyle, b: ShapeStyle): boolean {
+    return a.palette === b.palette && a.highContrast === b.highContrast && a.glyphs === b.glyphs;
+}
+
+// The colour to show for `id` (a shape kind, or a power-up's shape kind) instead of `original`.
+export function paletteColor(paletteId: PaletteId, id: string, original: string): string {
+    const palette = PALETTES[paletteId];
+    if (palette.colors[id]) return palette.colors[id];
+    if (palette.fallback.length === 0) return original;
+    return palette.fallback[hashString(id) % palette.fallback.length];
+}
+
+// A kind's gradient stops under `paletteId`. Only the last stop, which carries the kind's colour, changes.
+export function shapeFill(kind: ShapeKind, paletteId: PaletteId): string[] {
+    if (paletteId === 'default') return kind.fill;
+    const last = kind.fill[kind.fill.length - 1];
+    return kind.fill.slice(0, -1).concat(paletteColor(paletteId, kind.id, last));
+}
@@ -0,0 +1,282 @@
+import { BossFight } from '../bosses/BossFight';
+import type { BossRegistry } from '../bosses/BossRegistry';
+import { bosses } from '../bosses/BossRegistry';
+import { CollisionWorld } from '../collision/CollisionWorld';
+import { STEPS_PER_SECOND } from '../config';
+import { ChainLink, ChainReactor } from '../gameplay/ChainReactor';
+import { Director, DirectorSpawn } from '../gameplay/Director';
+import { ScoreEngine } from '../gameplay/ScoreEngine';
+import { InputSnapshot, triggersOf } from '../input/InputSnapshot';
+import type { Level } from '../levels/Level';
+import { LevelOutcome, LevelRuntime, ScheduledSpawn } from '../levels/LevelRuntime';
+import type { PowerUpContext } from '../powerups/PowerUpEffect';
+import { PowerUpSystem } from '../powerups/PowerUpSystem';
+import { RandomService } from '../random/RandomService';
+import { createShape, Shape } from '../shapes/Shape';
+import type { ShapeKind } from '../shapes/ShapeKind';
+import type { ShapeKindRegistry } from '../shapes/ShapeKindRegistry';
+import { shapeKinds } from '../shapes/ShapeKindRegistry';
+import type { SimulationEvent, SimulationListener, SimulationResult } from './SimulationEvents';
+
+// Extra reach around the pointer when hit-testing, in px.
+const POINTER_TOLERANCE = 6;
+
+export interface SimulationOptions {
+    level: Level;
+    seed: number;
+    // Default to the shared registries.
+    kinds?: ShapeKindRegistry;
+    bosses?: BossRegistry;
+}
+
+/**
+ * One round of play: shapes, collisions, chains, scoring, power-ups, bosses and the director, stepped
+ * with input in board coordinates. Nothing here touches the renderer or the DOM, so the same round runs
+ * in the browser, in Node scripts and on the server, and a seed plus the inputs always give the same result.
+ *
+ * Whoever draws the round follows it through `on` and `score.on`, and reads `shapes` when rendering.
+ */
+export class Simulation {
+    readonly level: LevelRuntime;
+    readonly random: RandomService;
+    readonly score = new ScoreEngine();
+    readonly powerUps: PowerUpSystem;
+
+    private readonly shapeList: Shape[] = [];
+    private readonly collisions = new CollisionWorld<Shape>();
+    private readonly chains = new ChainReactor(STEPS_PER_SECOND);
+    private readonly director: Director | null = null;
+    private readonly powerUpContext: PowerUpContext;
+    private readonly fights: BossFight[] = [];
+    private readonly listeners: SimulationListener[] = [];
+    private bossesBeaten = 0;
+    private time = 0;
+    private finished: SimulationResult | null = null;
+
+    constructor(options: SimulationOptions) {
+        const level = options.level;
+        this.level = new LevelRuntime(level, options.kinds || shapeKinds, options.bosses || bosses);
+        this.random = new RandomService(options.seed);
+
+        const directorConfig = this.level.directorConfig();
+        if (directorConfig) this.director = new Director(directorConfig, this.random.stream('director'));
+        this.powerUps = new PowerUpSystem(this.level.powerUpConfig(), this.random.stream('powerUps'));
+        this.powerUpContext = {
+            boardWidth: level.board.width,
+            boardHeight: level.board.height,
+            collisions: this.collisions,
+            shapes: this.shapeList,
+            damage: (shape, amount) => {
+                if (shape.damage(amount)) this.destroyed(this.chains.ignite(shape, 1));
+            },
+        };
+    }
+
+    get shapes(): readonly Shape[] {
+        return this.shapeList;
+    }
+
+    // Bosses still being fought, oldest first.
+    get bossFights(): readonly BossFight[] {
+        return this.fights;
+    }
+
+    // Seconds simulated so far.
+    get elapsed(): number {
+        return this.time;
+    }
+
+    // How hard the director is currently pushing, 0 to 1, for music and effects to follow.
+    get intensity(): number {
+        return this.director ? this.director.intensity : 0;
+    }
+
+    // Set once the round is decided.
+    get result(): SimulationResult | null {
+        return this.finished;
+    }
+
+    // Seconds left on the clock, or Infinity for untimed levels.
+    timeRemaining(): number {
+        return this.level.timeRemaining(this.time);
+    }
+
+    on(listener: SimulationListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            const index = this.listeners.indexOf(listener);
+            if (index !== -1) this.listeners.splice(index, 1);
+        };
+    }
+
+    // Advances the round by one step with input in board coordinates. Returns true once the round has ended.
+    step(dt: number, input: InputSnapshot): boolean {
+        if (this.finished) return true;
+
+        this.time += dt;
+        const modifiers = this.powerUps.modifiers();
+        this.score.setPointScale(modifiers.scoreScale);
+
+        triggersOf(input, 'pop').forEach(({ x, y }) => {
+            const hit = this.collisions.hitTestPoint(x, y, POINTER_TOLERANCE + modifiers.popReach)[0];
+            this.score.shot(x, y, hit !== undefined);
+            if (this.director) this.director.recordShot(hit !== undefined);
+            if (hit && hit.damage()) this.destroyed(this.chains.ignite(hit));
+        });
+
+        const chainStep = this.chains.step(this.collisions);
+        chainStep.destroyed.forEach((link) => this.destroyed(link));
+        chainStep.completed.forEach((summary) => this.score.chainCompleted(summary));
+        this.score.step(dt);
+
+        const powerUpStep = this.powerUps.step(this.powerUpContext, dt);
+        powerUpStep.faded.forEach((shape) => this.discard(shape));
+        powerUpStep.spawns.forEach((powerUp) => this.powerUps.place(powerUp, this.spawnShape(powerUp.shape)));
+
+        this.level.due(this.time).forEach((spawn) => this.spawnScheduled(spawn));
+        if (this.director) {
+            this.director.step(dt).forEach((spawn) => this.spawnDirected(spawn));
+        }
+
+        const { width, height } = this.level.level.board;
+        for (let i = 0; i < this.shapeList.length; i++) {
+            this.shapeList[i].step(dt * modifiers.shapeTimeScale);
+            this.shapeList[i].bounce(width, height);
+        }
+        this.stepBosses(dt * modifiers.shapeTimeScale, input);
+        this.removeDeadShapes();
+        this.collisions.rebuild(this.shapeList);
+
+        const summary = this.score.summary();
+        const outcome = this.level.evaluate({
+            elapsed: this.time,
+            score: summary.total,
+            pops: summary.pops,
+            misses: summary.shots - summary.hits,
+            longestChain: summary.longestChain,
+            liveShapes: this.shapeList.length - this.powerUps.onBoard,
+            bossesBeaten: this.bossesBeaten,
+        });
+        if (!outcome || this.chains.active) return false;
+
+        this.finish(outcome);
+        return true;
+    }
+
+    // Lets shapes drift on after the round is decided, for a finale. Nothing here affects the result.
+    settle(dt: number): void {
+        const { width, height } = this.level.level.board;
+        this.shapeList.forEach((shape) => {
+            shape.step(dt);
+            shape.bounce(width, height);
+        });
+    }
+
+    // Drops pending chain blasts, so nothing holds on to the round's shapes.
+    clear(): void {
+        this.chains.clear();
+    }
+
+    private emit(event: SimulationEvent): void {
+        this.listeners.forEach((listener) => listener(event));
+    }
+
+    private finish(outcome: LevelOutcome): void {
+        const cleared = outcome === 'won';
+        const remaining = this.timeRemaining();
+        const score = this.score.finishRound({ cleared, secondsRemaining: isFinite(remaining) ? remaining : 0 });
+        this.finished = { cleared, elapsed: this.time, score };
+        this.emit({ type: 'finished', result: this.finished });
+    }
+
+    // Scores a destroyed shape, or collects it if it was a power-up.
+    private destroyed(link: ChainLink): void {
+        this.fights.forEach((fight) => {
+            if (fight.chainReached(link)) this.emit({ type: 'weakPointsExposed', fight });
+        });
+        if (this.powerUps.collect(link.shape, this.powerUpContext)) {
+            this.emit({ type: 'powerUpCollected', shape: link.shape });
+            return;
+        }
+        this.score.shapeDestroyed(link);
+        if (this.director) this.director.recordPop();
+    }
+
+    private spawnScheduled(spawn: ScheduledSpawn): void {
+        if (spawn.boss) {
+            this.spawnBoss(spawn.boss, spawn.x, spawn.y);
+            return;
+        }
+        const kind = this.random.stream('spawn').pick(spawn.kinds);
+        this.spawnShape(this.level.kinds.get(kind), spawn.x, spawn.y);
+    }
+
+    private spawnDirected(spawn: DirectorSpawn): void {
+        const shape = this.spawnShape(this.level.kinds.get(spawn.kind));
+        shape.scaleDifficulty(spawn.speedScale, spawn.toughnessScale);
+    }
+
+    private spawnBoss(id: string, atX?: number, atY?: number): void {
+        const { width, height } = this.level.level.board;
+        const boss = this.level.bosses.get(id);
+        const fight = new BossFight(
+            boss,
+            atX !== undefined ? atX : width / 2,
+            atY !== undefined ? atY : height / 2,
+            width,
+            height,
+            this.random.stream('bosses'),
+            (kind, x, y) => this.spawnShape(this.level.kinds.get(kind), x, y),
+        );
+        this.fights.push(fight);
+        this.emit({ type: 'bossArrived', fight });
+    }
+
+    // Moves each boss after the shapes have stepped, launches its attacks and retires it once beaten.
+    private stepBosses(dt: number, input: InputSnapshot): void {
+        this.fights.slice().forEach((fight) => {
+            const result = fight.step(dt, input.aimX, input.aimY);
+            result.attacks.forEach((attack) => {
+                const shape = this.spawnShape(this.level.kinds.get(attack.kind), attack.x, attack.y);
+                shape.vx = attack.vx;
+                shape.vy = attack.vy;
+            });
+
+            if (result.phaseStarted !== null) this.emit({ type: 'bossPhase', fight, phase: result.phaseStarted });
+            if (result.defeated) {
+                this.bossesBeaten++;
+                this.fights.splice(this.fights.indexOf(fight), 1);
+                this.emit({ type: 'bossDefeated', fight });
+            }
+        });
+    }
+
+    private spawnShape(kind: ShapeKind, atX?: number, atY?: number): Shape {
+        const { width, height } = this.level.level.board;
+        const stream = this.random.stream('spawn');
+        const x = atX !== undefined ? atX : stream.range(kind.radius, width - kind.radius);
+        const y = atY !== undefined ? atY : stream.range(kind.radius, height - kind.radius);
+
+        const shape = createShape(kind, x, y, this.random.stream('shapes').next);
+        this.shapeList.push(shape);
+        this.emit({ type: 'spawned', shape });
+        return shape;
+    }
+
+    private removeDeadShapes(): void {
+        for (let i = this.shapeList.length - 1; i >= 0; i--) {
+            const shape = this.shapeList[i];
+            if (shape.alive) continue;
+
+            this.shapeList.splice(i, 1);
+            this.emit({ type: 'exploded', shape });
+        }
+    }
+
+    // Takes a shape off the board without it exploding, e.g. a power-up nobody collected.
+    private discard(shape: Shape): void {
+        const index = this.shapeList.indexOf(shape);
+        if (index !== -1) this.shapeList.splice(index, 1);
+        this.emit({ type: 'discarded', shape });
+    }
+}
@@ -0,0 +1,76 @@
+// Everything the simulation reports besides scoring, for a renderer, sounds or a headless script to follow.
+
+import type { BossFight } from '../bosses/BossFight';
+import type { ScoreSummary } from '../gameplay/ScoreEngine';
+import type { Shape } from '../shapes/Shape';
+
+export interface SimulationResult {
+    // Whether the level was won rather than lost.
+    cleared: boolean;
+    // Seconds simulated.
+    elapsed: number;
+    // Includes the end-of-round bonuses.
+    score: ScoreSummary;
+}
+
+export interface SpawnedEvent {
+    type: 'spawned';
+    shape: Shape;
+}
+
+// A destroyed shape left the board; it should go off.
+export interface ExplodedEvent {
+    type: 'exploded';
+    shape: Shape;
+}
+
+// A shape left the board quietly, e.g. a power-up nobody collected.
+export interface DiscardedEvent {
+    type: 'discarded';
+    shape: Shape;
+}
+
+export interface PowerUpCollectedEvent {
+    type: 'powerUpCollected';
+    shape: Shape;
+}
+
+export interface BossArrivedEvent {
+    type: 'bossArrived';
+    fight: BossFight;
+}
+
+export interface WeakPointsExposedEvent {
+    type: 'weakPointsExposed';
+    fight: BossFight;
+}
+
+export interface BossPhaseEvent {
+    type: 'bossPhase';
+    fight: BossFight;
+    // Zero-based.
+    phase: number;
+}
+
+export interface BossDefeatedEvent {
+    type: 'bossDefeated';
+    fight: BossFight;
+}
+
+export interface FinishedEvent {
+    type: 'finished';
+    result: SimulationResult;
+}
+
+export type SimulationEvent =
+    | SpawnedEvent
+    | ExplodedEvent
+    | DiscardedEvent
+    | PowerUpCollectedEvent
+    | BossArrivedEvent
+    | WeakPointsExposedEvent
+    | BossPhaseEvent
+    | BossDefeatedEvent
+    | FinishedEvent;
+
+export type SimulationListener = (event: SimulationEvent) => void;
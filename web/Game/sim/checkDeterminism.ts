@@ -0,0 +1,44 @@
+/**
+ * Headless determinism check, run under Node by `yarn check:sim`. A bot plays every built-in level with
+ * every strategy while its input is recorded, and each recording, sent through the replay codec the way
+ * stored replays are, has to play back to the same result. Exits non-zero on any mismatch.
+ */
+
+import { BOT_SKILLS } from '../bots/Bot';
+import { botStrategies } from '../bots/BotStrategyRegistry';
+import { runBotTrial } from '../bots/botTrials';
+import { builtinLevelIds, getBuiltinLevel } from '../levels/builtinLevels';
+import { decodeReplay, encodeReplay } from '../replay/replayCodec';
+import { ReplayRecorder } from '../replay/ReplayRecorder';
+import { runReplay } from './runReplay';
+
+const SEEDS = [1, 0x5eed];
+
+let failures = 0;
+
+builtinLevelIds().forEach((levelId) => {
+    const level = getBuiltinLevel(levelId);
+    botStrategies.all().forEach((strategy) => {
+        SEEDS.forEach((seed) => {
+            const recorder = new ReplayRecorder(seed, levelId);
+            const trial = runBotTrial(level, seed, { strategy: strategy.id, skill: BOT_SKILLS.average, recorder });
+            const replayed = runReplay(decodeReplay(encodeReplay(recorder.finish())));
+
+            const name = `${levelId} / ${strategy.id} / seed ${seed}`;
+            if (!trial.finished) {
+                console.log(`skip  ${name}: the bot didn't finish the round`);
+            } else if (!replayed || replayed.score.total !== trial.score || replayed.cleared !== trial.cleared) {
+                failures++;
+                const got = replayed ? `${replayed.score.total}${replayed.cleared ? ' (cleared)' : ''}` : 'no result';
+                console.error(`FAIL  ${name}: played ${trial.score}${trial.cleared ? ' (cleared)' : ''}, replayed ${got}`);
+            } else {
+                console.log(`ok    ${name}: ${trial.score}`);
+            }
+        });
+    });
+});
+
+if (failures > 0) {
+    console.error(`${failures} run(s) did not replay to the same result`);
+    process.exit(1);
+}
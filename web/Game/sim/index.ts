@@ -0,0 +1,25 @@
+/**
+ * The game's simulation: everything that decides a round, and nothing that draws one. Modules reachable
+ * from here must not touch pixi or the DOM, so they run unchanged under Node; `tsconfig.json` in this
+ * folder checks that (`tsc -p web/Game/sim`), along with the headless bot runner built on top.
+ * `yarn check:sim` also runs `checkDeterminism.ts` under Node, which replays bot runs of every level.
+ */
+
+export { Simulation } from './Simulation';
+export type { SimulationOptions } from './Simulation';
+export type { SimulationEvent, SimulationListener, SimulationResult } from './SimulationEvents';
+export { runReplay } from './runReplay';
+
+export { ScoreEngine } from '../gameplay/ScoreEngine';
+export type { ScoreSummary } from '../gameplay/ScoreEngine';
+export type { ScoreEvent } from '../gameplay/ScoreEvents';
+export { emptySnapshot } from '../input/InputSnapshot';
+export type { InputSnapshot } from '../input/InputSnapshot';
+export { getBuiltinLevel, builtinLevelIds } from '../levels/builtinLevels';
+export { loadLevel } from '../levels/loadLevel';
+export type { Level } from '../levels/Level';
+export { createSeed, dailySeed, RandomService } from '../random/RandomService';
+export type { Replay } from '../replay/Replay';
+export { decodeReplay, encodeReplay, replayFromString, replayToString } from '../replay/replayCodec';
+export { ReplayRecorder } from '../replay/ReplayRecorder';
+export type { Shape } from '../shapes/Shape';
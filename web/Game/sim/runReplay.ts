@@ -0,0 +1,23 @@
+import { STEPS_PER_SECOND } from '../config';
+import { getBuiltinLevel } from '../levels/builtinLevels';
+import type { Replay } from '../replay/Replay';
+import { ReplayPlayer } from '../replay/ReplayPlayer';
+import { Simulation } from './Simulation';
+import type { SimulationResult } from './SimulationEvents';
+
+/**
+ * Re-simulates a recorded run to the end without drawing anything, e.g. to check a submitted score.
+ * Returns null if the recording stops before the round was decided.
+ */
+export function runReplay(replay: Replay): SimulationResult | null {
+    const level = replay.level || getBuiltinLevel(replay.levelId);
+    const simulation = new Simulation({ level, seed: replay.seed });
+    const player = new ReplayPlayer(replay);
+    const dt = 1 / STEPS_PER_SECOND;
+
+    while (!player.finished) {
+        if (simulation.step(dt, player.next())) break;
+    }
+    simulation.clear();
+    return simulation.result;
+}
@@ -0,0 +1,55 @@
+import { Container, Graphics, Text } from 'pixi.js';
+import type { BossFight } from '../bosses/BossFight';
+import type { I18n } from '../i18n/I18n';
+import { createBodyStyle } from './styles';
+
+const BAR_WIDTH = 280;
+const BAR_HEIGHT = 10;
+const PIP_SIZE = 6;
+const HEALTH_COLOR = 0xff3355;
+const EXPOSED_COLOR = 0xffee55;
+
+// The boss's name, a health bar that turns gold while weak points are open, and a pip per phase.
+export class BossBar {
+    readonly container = new Container();
+
+    private readonly name = new Text({ text: '', style: createBodyStyle(16) });
+    private readonly graphics = new Graphics();
+
+    constructor(private readonly i18n: I18n) {
+        this.name.anchor.set(0.5, 1);
+        this.container.addChild(this.name, this.graphics);
+        this.container.visible = false;
+    }
+
+    layout(width: number): void {
+        this.container.position.set(width / 2, 84);
+    }
+
+    // Shows `fight`, or hides the bar when there's no boss on the board.
+    render(fight: BossFight | null): void {
+        this.container.visible = fight !== null;
+        if (!fight) return;
+
+        this.name.text = this.i18n.label(`boss.${fight.boss.id}.name`, fight.boss.name);
+
+        const left = -BAR_WIDTH / 2;
+        const graphics = this.graphics
+            .clear()
+            .rect(left, 0, BAR_WIDTH, BAR_HEIGHT)
+            .fill({ color: 0x000000, alpha: 0.5 })
+            .rect(left, 0, BAR_WIDTH * fight.health, BAR_HEIGHT)
+            .fill(fight.weakPointsExposed ? EXPOSED_COLOR : HEALTH_COLOR)
+            .rect(left, 0, BAR_WIDTH, BAR_HEIGHT)
+            .stroke({ color: 0xffffff, width: 1 });
+
+        const phases = fight.boss.phases.length;
+        for (let i = 0; i < phases; i++) {
+            const x = (i - (phases - 1) / 2) * PIP_SIZE * 2.5;
+            graphics.rect(x - PIP_SIZE / 2, BAR_HEIGHT + 4, PIP_SIZE, PIP_SIZE);
+            if (i < fight.phase) graphics.fill({ color: 0xffffff, alpha: 0.3 });
+            else if (i === fight.phase) graphics.fill(0xffffff);
+            else graphics.stroke({ color: 0xffffff, width: 1 });
+        }
+    }
+}
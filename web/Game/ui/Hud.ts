@@ -0,0 +1,112 @@
+import { Container, Text } from 'pixi.js';
+import type { ScoreEngine } from '../gameplay/ScoreEngine';
+import type { ScoreEvent } from '../gameplay/ScoreEvents';
+import type { I18n } from '../i18n/I18n';
+import { createBodyStyle } from './styles';
+
+// Seconds a banner such as "Chain x5" stays up before it has fully faded.
+const BANNER_SECONDS = 1.5;
+
+/**
+ * Score, multiplier, round timer and a banner for chains and misses, drawn over the play field.
+ * Right-to-left languages mirror it: the score goes top right and the timer top left.
+ */
+export class Hud {
+    readonly container = new Container();
+
+    private readonly scoreText = new Text({ text: '0', style: createBodyStyle(24) });
+    private readonly multiplierText = new Text({ text: '', style: createBodyStyle(18) });
+    private readonly timerText = new Text({ text: '', style: createBodyStyle() });
+    private readonly bannerText = new Text({ text: '', style: createBodyStyle(28) });
+    private readonly unsubscribe: () => void;
+    private bannerTimer = 0;
+    private total = 0;
+    // Zero while no combo is running.
+    private multiplier = 0;
+
+    constructor(private readonly engine: ScoreEngine, private readonly i18n: I18n) {
+        this.bannerText.anchor.set(0.5, 0.5);
+
+        this.container.addChild(this.scoreText, this.multiplierText, this.timerText, this.bannerText);
+        this.unsubscribe = engine.on(this.onScoreEvent);
+    }
+
+    layout(width: number): void {
+        const rtl = this.i18n.direction === 'rtl';
+        this.scoreText.anchor.set(rtl ? 1 : 0, 0);
+        this.multiplierText.anchor.set(rtl ? 1 : 0, 0);
+        this.timerText.anchor.set(rtl ? 0 : 1, 0);
+        this.scoreText.position.set(rtl ? width - 16 : 16, 12);
+        this.multiplierText.position.set(rtl ? width - 16 : 16, 42);
+        this.timerText.position.set(rtl ? 16 : width - 16, 16);
+        this.bannerText.position.set(width / 2, 40);
+    }
+
+    // Redoes the numbers in the current language's digits.
+    localize(): void {
+        this.showScore(this.total);
+        this.showMultiplier(this.multiplier);
+    }
+
+    // Shows a countdown, or for untimed levels the time played so far.
+    setClock(seconds: number): void {
+        this.timerText.text = this.i18n.number(Math.max(0, Math.ceil(seconds)));
+    }
+
+    update(dt: number): void {
+        this.bannerTimer = Math.max(0, this.bannerTimer - dt);
+    }
+
+    render(): void {
+        this.bannerText.alpha = Math.min(1, this.bannerTimer);
+    }
+
+    destroy(): void {
+        this.unsubscribe();
+    }
+
+    // Flashes `text` across the top of the screen, e.g. "Phase 2".
+    showBanner(text: string): void {
+        this.bannerText.text = text;
+        this.bannerTimer = BANNER_SECONDS;
+    }
+
+    private showScore(total: number): void {
+        this.total = total;
+        this.scoreText.text = this.i18n.number(total);
+    }
+
+    private showMultiplier(multiplier: number): void {
+        this.multiplier = multiplier;
+        this.multiplierText.text = multiplier > 0
+            ? this.i18n.t('hud.multiplier', {
+                multiplier: this.i18n.number(multiplier, { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+            })
+            : '';
+    }
+
+    private onScoreEvent = (event: ScoreEvent): void => {
+        switch (event.type) {
+            case 'pop':
+                this.showScore(event.total);
+                break;
+            case 'combo':
+                this.showMultiplier(event.multiplier);
+                break;
+            case 'comboEnded':
+                this.showMultiplier(0);
+                break;
+            case 'chain':
+                this.showScore(event.total);
+                this.showBanner(this.i18n.t('hud.chain', { size: event.size, points: event.points }));
+                break;
+            case 'miss':
+                this.showScore(event.total);
+                if (event.penalty > 0) this.showBanner(this.i18n.t('hud.miss', { penalty: event.penalty }));
+                break;
+            case 'round':
+                this.showScore(event.total);
+                break;
+        }
+    };
+}
@@ -0,0 +1,97 @@
+import { Container, Text } from 'pixi.js';
+import type { UiCue } from '../audio/sounds';
+import type { I18n } from '../i18n/I18n';
+import { InputSnapshot, triggersOf, wasPressed } from '../input/InputSnapshot';
+import { createBodyStyle } from './styles';
+
+export interface MenuItem {
+    // Asked again on every `refresh`, so labels follow the language and whatever they show.
+    label(i18n: I18n): string;
+    select(): void;
+}
+
+// Distance between items, as a multiple of the font size.
+const LINE_HEIGHT = 1.6;
+const UNFOCUSED_ALPHA = 0.6;
+const FOCUSED_SCALE = 1.15;
+
+/**
+ * A vertical list of choices that works with every input device: up/down moves the focus,
+ * clicking an item picks it, and a keyboard or gamepad pop picks the focused item. Clicks that miss
+ * every item do nothing.
+ *
+ * Items are laid out around the container's origin; position the container in game coordinates.
+ */
+export class Menu {
+    readonly container = new Container();
+
+    private readonly texts: Text[] = [];
+    private readonly spacing: number;
+    private focus = 0;
+
+    // `onCue` is told when the focus moves or an item is picked, e.g. to play a sound.
+    constructor(
+        private readonly items: MenuItem[],
+        private readonly i18n: I18n,
+        private readonly onCue: (cue: UiCue) => void = () => {},
+        fontSize = 24,
+    ) {
+        this.spacing = fontSize * LINE_HEIGHT;
+        items.forEach((item, index) => {
+            const text = new Text({ text: item.label(i18n), style: createBodyStyle(fontSize) });
+            text.anchor.set(0.5, 0.5);
+            text.y = (index - (items.length - 1) / 2) * this.spacing;
+            this.texts.push(text);
+            this.container.addChild(text);
+        });
+        this.highlight();
+    }
+
+    get focused(): number {
+        return this.focus;
+    }
+
+    refresh(): void {
+        this.texts.forEach((text, index) => (text.text = this.items[index].label(this.i18n)));
+    }
+
+    focusOn(index: number): void {
+        this.focus = Math.max(0, Math.min(this.items.length - 1, index));
+        this.highlight();
+    }
+
+    // Handles one step of input. Returns true if an item was picked.
+    update(input: InputSnapshot): boolean {
+        const before = this.focus;
+        if (wasPressed(input, 'aimUp')) this.focusOn((this.focus + this.items.length - 1) % this.items.length);
+        if (wasPressed(input, 'aimDown')) this.focusOn((this.focus + 1) % this.items.length);
+        if (this.focus !== before) this.onCue('move');
+
+        const trigger = triggersOf(input, 'pop')[0];
+        if (!trigger) return false;
+
+        if (trigger.pointer) {
+            const hit = this.itemAt(trigger.x, trigger.y);
+            if (hit === -1) return false;
+            this.focusOn(hit);
+        }
+        this.onCue('select');
+        this.items[this.focus].select();
+        return true;
+    }
+
+    private itemAt(x: number, y: number): number {
+        const localX = x - this.container.x;
+        const localY = y - this.container.y;
+        return this.texts.findIndex((text) =>
+            Math.abs(localX - text.x) <= text.width / 2 && Math.abs(localY - text.y) <= this.spacing / 2);
+    }
+
+    private highlight(): void {
+        this.texts.forEach((text, index) => {
+            const focused = index === this.focus;
+            text.alpha = focused ? 1 : UNFOCUSED_ALPHA;
+            text.scale.set(focused ? FOCUSED_SCALE : 1);
+        });
+    }
+}
@@ -0,0 +1,70 @@
+import { Container, Graphics, Text } from 'pixi.js';
+import type { I18n } from '../i18n/I18n';
+import type { ActivePowerUp } from '../powerups/PowerUpEffect';
+import { PaletteId, paletteColor } from '../shapes/palettes';
+import { createBodyStyle } from './styles';
+
+const SLOT_WIDTH = 96;
+const ICON_RADIUS = 10;
+const BAR_WIDTH = 60;
+const BAR_HEIGHT = 5;
+// Seconds left at which the icon starts blinking.
+const WARNING_SECONDS = 2;
+
+interface Slot {
+    container: Container;
+    graphics: Graphics;
+    label: Text;
+}
+
+// A row along the bottom of the screen with an icon, name, stack count and timer bar per running power-up.
+export class PowerUpTray {
+    readonly container = new Container();
+    palette: PaletteId = 'default';
+
+    private readonly slots: Slot[] = [];
+
+    constructor(private readonly i18n: I18n) {}
+
+    layout(_width: number, height: number): void {
+        this.container.position.set(16, height - 36);
+    }
+
+    render(active: readonly ActivePowerUp[]): void {
+        while (this.slots.length < active.length) this.slots.push(this.createSlot());
+
+        this.slots.forEach((slot, index) => {
+            const power = active[index];
+            slot.container.visible = power !== undefined;
+            if (!power) return;
+
+            const { powerUp } = power;
+            const name = this.i18n.label(`powerUp.${powerUp.id}.name`, powerUp.label);
+            slot.label.text = power.stacks > 1 ? this.i18n.t('powerUp.stacks', { name, stacks: power.stacks }) : name;
+
+            const fraction = power.duration > 0 ? Math.max(0, power.remaining / power.duration) : 0;
+            const blinking = power.remaining < WARNING_SECONDS && Math.sin(power.remaining * 20) < 0;
+            const color = paletteColor(this.palette, powerUp.shape.id, powerUp.color);
+            slot.graphics
+                .clear()
+                .circle(ICON_RADIUS, ICON_RADIUS, ICON_RADIUS)
+                .fill({ color, alpha: blinking ? 0.3 : 1 })
+                .stroke({ color: 0xffffff, width: 2 })
+                .rect(ICON_RADIUS * 2 + 6, 18, BAR_WIDTH, BAR_HEIGHT)
+                .fill({ color: 0x000000, alpha: 0.4 })
+                .rect(ICON_RADIUS * 2 + 6, 18, BAR_WIDTH * fraction, BAR_HEIGHT)
+                .fill(color);
+        });
+    }
+
+    private createSlot(): Slot {
+        const container = new Container();
+        const graphics = new Graphics();
+        const label = new Text({ text: '', style: createBodyStyle(12) });
+        label.position.set(ICON_RADIUS * 2 + 6, 0);
+        container.x = this.slots.length * SLOT_WIDTH;
+        container.addChild(graphics, label);
+        this.container.addChild(container);
+        return { container, graphics, label };
+    }
+}
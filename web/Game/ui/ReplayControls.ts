@@ -0,0 +1,68 @@
+import { Container, Graphics, Text } from 'pixi.js';
+import { STEPS_PER_SECOND } from '../config';
+import type { I18n } from '../i18n/I18n';
+import type { ReplayPlayer } from '../replay/ReplayPlayer';
+import { createBodyStyle } from './styles';
+
+const BAR_MARGIN = 16;
+const BAR_HEIGHT = 8;
+// Distance from the bottom of the screen to the top of the bar.
+const BAR_BOTTOM = 24;
+
+// Extra reach above and below the scrub bar when clicking it, in px.
+const BAR_REACH = 10;
+
+function formatTime(ticks: number): string {
+    const seconds = Math.floor(ticks / STEPS_PER_SECOND);
+    const rest = seconds % 60;
+    return `${Math.floor(seconds / 60)}:${rest < 10 ? '0' : ''}${rest}`;
+}
+
+// Scrub bar, clock and speed readout shown while a replay plays.
+export class ReplayControls {
+    readonly container = new Container();
+
+    private readonly bar = new Graphics();
+    private readonly label = new Text({ text: '', style: createBodyStyle(14) });
+    private readonly hint = new Text({ text: '', style: createBodyStyle(14) });
+
+    private barY = 0;
+    private barWidth = 0;
+
+    constructor(private readonly i18n: I18n) {
+        this.container.addChild(this.bar, this.label, this.hint);
+    }
+
+    localize(): void {
+        this.hint.text = this.i18n.t('replay.hint');
+    }
+
+    // The clock sits at the start of the line and the key hint at its end, swapped for right-to-left languages.
+    layout(width: number, height: number): void {
+        const rtl = this.i18n.direction === 'rtl';
+        this.barY = height - BAR_BOTTOM;
+        this.barWidth = width - BAR_MARGIN * 2;
+        this.label.anchor.set(rtl ? 1 : 0, 0);
+        this.hint.anchor.set(rtl ? 0 : 1, 0);
+        this.label.position.set(rtl ? width - BAR_MARGIN : BAR_MARGIN, this.barY - 24);
+        this.hint.position.set(rtl ? BAR_MARGIN : width - BAR_MARGIN, this.barY - 24);
+    }
+
+    render(player: ReplayPlayer): void {
+        const total = Math.max(1, player.replay.ticks);
+
+        this.bar.clear();
+        this.bar.rect(BAR_MARGIN, this.barY, this.barWidth, BAR_HEIGHT).fill({ color: 0x000000, alpha: 0.5 });
+        this.bar.rect(BAR_MARGIN, this.barY, (this.barWidth * player.currentTick) / total, BAR_HEIGHT).fill(0x00ff99);
+
+        const i18n = this.i18n;
+        const state = player.paused ? i18n.t('replay.paused') : i18n.t('replay.playing', { speed: player.speed });
+        this.label.text = i18n.t('replay.status', { state, time: formatTime(player.currentTick), total: formatTime(total) });
+    }
+
+    // Where along the replay a click at (`x`, `y`) lands, 0 to 1, or null if it missed the bar.
+    seekFraction(x: number, y: number): number | null {
+        if (y < this.barY - BAR_REACH || y > this.barY + BAR_HEIGHT + BAR_REACH) return null;
+        return Math.max(0, Math.min(1, (x - BAR_MARGIN) / this.barWidth));
+    }
+}
@@ -0,0 +1,98 @@
+import { Container, Text } from 'pixi.js';
+import { Pool } from '../core/Pool';
+import type { ScoreEngine } from '../gameplay/ScoreEngine';
+import type { ScoreEvent } from '../gameplay/ScoreEvents';
+import type { I18n } from '../i18n/I18n';
+import { createBodyStyle } from './styles';
+
+// Seconds a popup floats before it is gone, and how far it rises in that time, in px.
+const POPUP_SECONDS = 0.8;
+const POPUP_RISE = 36;
+// Popups alive at once; a big chain recycles the oldest instead of piling up more.
+const MAX_POPUPS = 48;
+
+const gainStyle = createBodyStyle(16);
+const lossStyle = createBodyStyle(16);
+lossStyle.fill = '#ff6b6b';
+
+// Shared by every round, so popups don't allocate text objects while a chain goes off.
+const textPool = new Pool<Text>({
+    name: 'scorePopups',
+    create: () => new Text({ text: '', style: gainStyle }),
+    reset: (text) => {
+        text.removeFromParent();
+        text.alpha = 1;
+    },
+    dispose: (text) => text.destroy(),
+    maxFree: MAX_POPUPS,
+    leakWarning: MAX_POPUPS,
+});
+
+interface Popup {
+    text: Text;
+    x: number;
+    y: number;
+    age: number;
+}
+
+// "+20" style numbers that float up from wherever points were won or lost, in board coordinates.
+export class ScorePopups {
+    readonly container = new Container();
+
+    private readonly popups: Popup[] = [];
+    private readonly unsubscribe: () => void;
+
+    constructor(engine: ScoreEngine, private readonly i18n: I18n) {
+        textPool.prewarm(MAX_POPUPS / 2);
+        this.unsubscribe = engine.on(this.onScoreEvent);
+    }
+
+    update(dt: number): void {
+        for (let i = this.popups.length - 1; i >= 0; i--) {
+            const popup = this.popups[i];
+            popup.age += dt;
+            if (popup.age >= POPUP_SECONDS) {
+                this.popups.splice(i, 1);
+                textPool.release(popup.text);
+                continue;
+            }
+
+            const t = popup.age / POPUP_SECONDS;
+            popup.text.position.set(popup.x, popup.y - POPUP_RISE * t);
+            popup.text.alpha = t < 0.5 ? 1 : 2 - t * 2;
+        }
+    }
+
+    destroy(): void {
+        this.unsubscribe();
+        this.popups.forEach((popup) => textPool.release(popup.text));
+        this.popups.length = 0;
+        textPool.checkLeaks();
+    }
+
+    private show(label: string, x: number, y: number, loss: boolean): void {
+        if (this.popups.length >= MAX_POPUPS) {
+            const oldest = this.popups.shift() as Popup;
+            textPool.release(oldest.text);
+        }
+
+        const text = textPool.acquire();
+        text.text = label;
+        text.style = loss ? lossStyle : gainStyle;
+        text.anchor.set(0.5, 0.5);
+        text.position.set(x, y);
+        this.container.addChild(text);
+        this.popups.push({ text, x, y, age: 0 });
+    }
+
+    private onScoreEvent = (event: ScoreEvent): void => {
+        switch (event.type) {
+            case 'pop':
+                if (event.points > 0) this.show(`+${this.i18n.number(event.points)}`, event.x, event.y, false);
+                break;
+            case 'miss':
+                if (event.penalty > 0) this.show(`-${this.i18n.number(event.penalty)}`, event.x, event.y, true);
+                break;
+        }
+    };
+}
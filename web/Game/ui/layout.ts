@@ -0,0 +1,13 @@
+import type { Container } from 'pixi.js';
+
+// Scales and centres `target`, whose content is width x height, to fit inside the view without distortion.
+export function fitInto(target: Container, width: number, height: number, viewWidth: number, viewHeight: number): void {
+    const scale = Math.min(viewWidth / width, viewHeight / height);
+    target.scale.set(scale);
+    target.position.set((viewWidth - width * scale) / 2, (viewHeight - height * scale) / 2);
+}
+
+// Maps a point from the view into `target`'s local space, undoing `fitInto`.
+export function toLocalPoint(target: Container, x: number, y: number): { x: number; y: number } {
+    return { x: (x - target.x) / target.scale.x, y: (y - target.y) / target.scale.y };
+}
@@ -0,0 +1,69 @@
+import { Color, Container, FillGradient, Text, TextStyle } from 'pixi.js';
+import { fontsFor, LocaleFonts } from '../i18n/fonts';
+import { FALLBACK_LOCALE } from '../i18n/locale';
+
+// The current language's fonts, which every style below is made with.
+let fonts: LocaleFonts = fontsFor(FALLBACK_LOCALE);
+// Title styles go italic where the language's fonts allow it.
+const titleStyles = new WeakSet<TextStyle>();
+
+// The gradient, outline and shadow used for the "ShapeSplosion" logo and other headings.
+export function createTitleStyle(fontSize = 36): TextStyle {
+    const fill = new FillGradient(0, 0, 0, 10);
+
+    const colors = [0xffffff, 0x00ff99].map((color) => Color.shared.setValue(color).toNumber());
+
+    colors.forEach((number, index) =>
+    {
+        const ratio = index / colors.length;
+
+        fill.addColorStop(ratio, number);
+    });
+
+    const style = new TextStyle({
+        fontFamily: fonts.family,
+        fontSize,
+        fontStyle: fonts.italic ? 'italic' : 'normal',
+        fontWeight: 'bold',
+        fill: { fill },
+        stroke: { color: '#4a1850', width: 5, join: 'round' },
+        dropShadow: {
+            color: '#000000',
+            blur: 4,
+            angle: Math.PI / 6,
+            distance: 6,
+        },
+        wordWrap: false,
+    });
+    titleStyles.add(style);
+    return style;
+}
+
+// Plain text for prompts, labels and the HUD.
+export function createBodyStyle(fontSize = 20): TextStyle {
+    return new TextStyle({
+        fontFamily: fonts.family,
+        fontSize,
+        fill: '#ffffff',
+        stroke: { color: '#4a1850', width: 3, join: 'round' },
+    });
+}
+
+/**
+ * Switches styles to the fonts of a new language: those made from now on, and those of every `Text`
+ * under `root`. Styles shared by text that is off the stage, such as pooled text, keep the old fonts
+ * until they are made again; they only draw digits, which every font list starts with.
+ */
+export function applyTextFonts(next: LocaleFonts, root: Container): void {
+    fonts = next;
+    const visit = (container: Container): void => {
+        container.children.forEach((child) => {
+            if (child instanceof Text) {
+                child.style.fontFamily = next.family;
+                if (titleStyles.has(child.style)) child.style.fontStyle = next.italic ? 'italic' : 'normal';
+            }
+            visit(child);
+        });
+    };
+    visit(root);
+}
@@ -10,11 +10,17 @@ import { ResetPasswordPage } from "../routes/reset-password";
 import { VerifyEmailPage } from "../routes/verify-email";
 import { ChangePasswordPage } from "../routes/change-password";
 import { ForgotPasswordPage } from "../routes/forgot-password";
+import { EditorPage } from "../routes/editor";
+import { applyDocumentLocale, detectLocale } from "../Game/i18n/locale";
+import { SettingsStore } from "../Game/settings/SettingsStore";
 import "./App.css";
 
 const App = () => {
   useEffect(() => {
     document.title = `${process.env.GADGET_APP}`;
+    // Detected the same way as in the game, so the page and the canvas agree on language and direction.
+    // This is the browser's shared choice; a game started for a signed-in player applies theirs.
+    applyDocumentLocale(detectLocale(new SettingsStore().current.language));
   }, []);
 
   const router = createBrowserRouter(
@@ -44,6 +50,14 @@ const App = () => {
             </SignedInOrRedirect>
           }
         />
+        <Route
+          path="editor"
+          element={
+            <SignedInOrRedirect>
+              <EditorPage />
+            </SignedInOrRedirect>
+          }
+        />
         <Route
           path="forgot-password"
           element={
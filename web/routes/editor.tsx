@@ -0,0 +1,370 @@
+import { useUser } from "@gadgetinc/react";
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { api } from "../api";
+import { BOT_SKILLS, BotSkillLevel } from "../Game/bots/Bot";
+import { botStrategies } from "../Game/bots/BotStrategyRegistry";
+import { BotTrial, BotTrialRun, ScoreDistribution, summarizeTrials } from "../Game/bots/botTrials";
+import { EditorDocument } from "../Game/editor/EditorDocument";
+import { EditorHandle, mountEditor } from "../Game/editor/mountEditor";
+import type { WinCondition } from "../Game/levels/Level";
+import { shapeKinds } from "../Game/shapes/ShapeKindRegistry";
+
+const WIN_TYPES: WinCondition["type"][] = ["clear", "survive", "score", "pops", "chain"];
+
+// A win condition of `type` with a sensible starting target.
+const defaultWinCondition = (type: WinCondition["type"]): WinCondition => {
+  switch (type) {
+    case "score": return { type, target: 1000 };
+    case "pops": return { type, target: 20 };
+    case "chain": return { type, size: 5 };
+    default: return { type };
+  }
+};
+
+const winTarget = (condition: WinCondition) =>
+  condition.type === "chain" ? condition.size : "target" in condition ? condition.target : undefined;
+
+const SKILL_LEVELS = Object.keys(BOT_SKILLS) as BotSkillLevel[];
+
+// Lets the page repaint between slices of bot runs, so a long batch doesn't freeze it.
+const nextFrame = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// Simulation steps a bot plays between repaints; a run to the time cap takes many slices.
+const BOT_STEPS_PER_SLICE = 600;
+
+// The number typed into a field, or `fallback` while it doesn't hold one.
+const numberOr = (value: string, fallback: number) => {
+  const number = Number(value);
+  return isFinite(number) ? number : fallback;
+};
+
+export const EditorPage = () => {
+  const user = useUser(api);
+  const playerId = user ? user.id : undefined;
+  const editorDocument = useMemo(() => new EditorDocument(), []);
+  const state = useSyncExternalStore(
+    (listener) => editorDocument.subscribe(listener),
+    () => editorDocument.snapshot
+  );
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [handle, setHandle] = useState<EditorHandle | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [importText, setImportText] = useState("");
+  const [importIssues, setImportIssues] = useState<string[]>([]);
+  const [batch, setBatch] = useState({ count: 5, interval: 0.5 });
+  const [botTest, setBotTest] = useState({ strategy: "greedy", skill: "average" as BotSkillLevel, runs: 20 });
+  const [botProgress, setBotProgress] = useState<number | null>(null);
+  const [distribution, setDistribution] = useState<ScoreDistribution | null>(null);
+  const unmounted = useRef(false);
+
+  useEffect(() => () => {
+    unmounted.current = true;
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    let mounted: EditorHandle | null = null;
+
+    const options = { playerId, onTestEnded: () => setTesting(false) };
+    mountEditor(canvasRef.current as HTMLDivElement, editorDocument, options).then((editor) => {
+      if (cancelled) {
+        editor.destroy();
+        return;
+      }
+      mounted = editor;
+      setHandle(editor);
+    });
+
+    return () => {
+      cancelled = true;
+      if (mounted) mounted.destroy();
+    };
+  }, [editorDocument, playerId]);
+
+  const { level, waveIndex } = state;
+  const issues = editorDocument.validate();
+  const timelineLength = Math.max(level.timeLimit, ...level.waves.map((wave) => wave.at), 1);
+
+  const onTestPlay = () => {
+    if (handle && handle.testPlay()) setTesting(true);
+  };
+
+  // Going back to the editor ends the test, which mountEditor reports.
+  const onStopTest = () => {
+    if (handle) handle.stopTest();
+  };
+
+  // Plays the level as it stands with bots, one seed per run, and shows how the scores spread.
+  const onRunBots = async () => {
+    const level = editorDocument.snapshot.level;
+    const options = { strategy: botTest.strategy, skill: BOT_SKILLS[botTest.skill] };
+    const trials: BotTrial[] = [];
+    setDistribution(null);
+    for (let seed = 1; seed <= botTest.runs; seed++) {
+      setBotProgress(seed - 1);
+      const run = new BotTrialRun(level, seed, options);
+      do {
+        await nextFrame();
+        if (unmounted.current) return;
+      } while (!run.advance(BOT_STEPS_PER_SLICE));
+      trials.push(run.finish());
+    }
+    setBotProgress(null);
+    setDistribution(summarizeTrials(trials));
+  };
+
+  const onImport = () => {
+    const problems = editorDocument.importJSON(importText);
+    setImportIssues(problems.map((issue) => `${issue.path}: ${issue.message}`));
+    if (problems.length === 0) setImportText("");
+  };
+
+  const setWinCondition = (index: number, condition: WinCondition) => {
+    editorDocument.setWinConditions(level.win.map((existing, i) => (i === index ? condition : existing)));
+  };
+
+  return (
+    <div className="editor">
+      <div className="editor-canvas" ref={canvasRef} />
+      <div className="editor-panel">
+        <div className="flex-horizontal gap-4px">
+          {testing ? (
+            <button onClick={onStopTest}>Stop test</button>
+          ) : (
+            <button disabled={!handle || issues.length > 0} onClick={onTestPlay}>
+              Test play
+            </button>
+          )}
+        </div>
+
+        <fieldset>
+          <legend>Level</legend>
+          <label>
+            Name
+            <input value={level.name} onChange={(e) => editorDocument.edit((l) => (l.name = e.target.value))} />
+          </label>
+          <label>
+            Id
+            <input value={level.id} onChange={(e) => editorDocument.edit((l) => (l.id = e.target.value))} />
+          </label>
+          <label>
+            Board
+            <input
+              type="number"
+              value={level.board.width}
+              onChange={(e) => editorDocument.edit((l) => (l.board.width = Number(e.target.value)))}
+            />
+            ×
+            <input
+              type="number"
+              value={level.board.height}
+              onChange={(e) => editorDocument.edit((l) => (l.board.height = Number(e.target.value)))}
+            />
+          </label>
+          <label>
+            Background
+            <input
+              type="color"
+              value={level.board.background}
+              onChange={(e) => editorDocument.edit((l) => (l.board.background = e.target.value))}
+            />
+          </label>
+          <label>
+            Time limit (s)
+            <input
+              type="number"
+              value={level.timeLimit}
+              onChange={(e) => editorDocument.edit((l) => (l.timeLimit = Number(e.target.value)))}
+            />
+          </label>
+        </fieldset>
+
+        <fieldset>
+          <legend>Placing</legend>
+          <label>
+            Shape
+            <select value={state.kind} onChange={(e) => editorDocument.configure({ kind: e.target.value })}>
+              {shapeKinds.all().map((kind) => (
+                <option key={kind.id} value={kind.id}>{kind.id}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <input type="checkbox" checked={state.snap} onChange={(e) => editorDocument.configure({ snap: e.target.checked })} />
+            Snap to grid
+          </label>
+          <label>
+            Grid size
+            <input
+              type="number"
+              min={4}
+              value={state.gridSize}
+              onChange={(e) => editorDocument.configure({ gridSize: Math.max(4, numberOr(e.target.value, state.gridSize)) })}
+            />
+          </label>
+        </fieldset>
+
+        <fieldset>
+          <legend>Waves</legend>
+          <div className="editor-timeline">
+            {level.waves.map((wave, index) => (
+              <button
+                key={index}
+                className={index === waveIndex ? "editor-wave selected" : "editor-wave"}
+                style={{ left: `${(wave.at / timelineLength) * 100}%` }}
+                onClick={() => editorDocument.configure({ waveIndex: index })}
+                title={`Wave ${index + 1} at ${wave.at}s`}
+              >
+                {index + 1}
+              </button>
+            ))}
+          </div>
+          {level.waves[waveIndex] && (
+            <div className="flex-vertical gap-4px">
+              <label>
+                Starts at (s)
+                <input
+                  type="number"
+                  min={0}
+                  value={level.waves[waveIndex].at}
+                  onChange={(e) => editorDocument.setWaveTime(waveIndex, Number(e.target.value))}
+                />
+              </label>
+              <span className="sm-description">{level.waves[waveIndex].spawns.length} spawns in this wave</span>
+              <div className="flex-horizontal gap-4px">
+                <input
+                  type="number"
+                  min={1}
+                  value={batch.count}
+                  onChange={(e) => setBatch({ ...batch, count: Number(e.target.value) })}
+                  title="Count"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={batch.interval}
+                  onChange={(e) => setBatch({ ...batch, interval: Number(e.target.value) })}
+                  title="Seconds between shapes"
+                />
+                <button onClick={() => editorDocument.addBatch({ kinds: [state.kind], count: batch.count, interval: batch.interval })}>
+                  Add random batch
+                </button>
+              </div>
+              <button onClick={() => editorDocument.removeWave(waveIndex)}>Remove wave</button>
+            </div>
+          )}
+          <button onClick={() => editorDocument.addWave(level.waves.length ? level.waves[level.waves.length - 1].at + 5 : 0)}>
+            Add wave
+          </button>
+        </fieldset>
+
+        <fieldset>
+          <legend>Win when any of</legend>
+          {level.win.map((condition, index) => (
+            <div key={index} className="flex-horizontal gap-4px">
+              <select
+                value={condition.type}
+                onChange={(e) => setWinCondition(index, defaultWinCondition(e.target.value as WinCondition["type"]))}
+              >
+                {WIN_TYPES.map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              {winTarget(condition) !== undefined && (
+                <input
+                  type="number"
+                  value={winTarget(condition)}
+                  onChange={(e) =>
+                    setWinCondition(
+                      index,
+                      condition.type === "chain"
+                        ? { type: "chain", size: Number(e.target.value) }
+                        : { ...condition, target: Number(e.target.value) } as WinCondition
+                    )
+                  }
+                />
+              )}
+              <button onClick={() => editorDocument.setWinConditions(level.win.filter((_, i) => i !== index))}>×</button>
+            </div>
+          ))}
+          <button onClick={() => editorDocument.setWinConditions([...level.win, defaultWinCondition("score")])}>
+            Add condition
+          </button>
+        </fieldset>
+
+        <fieldset>
+          <legend>Bot test</legend>
+          <label>
+            Strategy
+            <select value={botTest.strategy} onChange={(e) => setBotTest({ ...botTest, strategy: e.target.value })}>
+              {botStrategies.all().map((strategy) => (
+                <option key={strategy.id} value={strategy.id}>{strategy.label}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Skill
+            <select value={botTest.skill} onChange={(e) => setBotTest({ ...botTest, skill: e.target.value as BotSkillLevel })}>
+              {SKILL_LEVELS.map((skill) => (
+                <option key={skill} value={skill}>{skill}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Runs
+            <input
+              type="number"
+              min={1}
+              value={botTest.runs}
+              onChange={(e) => setBotTest({ ...botTest, runs: Math.max(1, Math.floor(numberOr(e.target.value, botTest.runs))) })}
+            />
+          </label>
+          <button disabled={issues.length > 0 || botProgress !== null} onClick={onRunBots}>
+            {botProgress !== null ? `Running ${botProgress}/${botTest.runs}…` : "Run bots"}
+          </button>
+          {distribution && (
+            <div className="flex-vertical gap-4px">
+              <span>
+                Won {Math.round(distribution.winRate * 100)}% of {distribution.runs} runs
+                {distribution.unfinished > 0 && `, ${distribution.unfinished} never ended`}
+              </span>
+              <span className="sm-description">
+                Median {distribution.median}, mean {Math.round(distribution.mean)}, 10–90% {distribution.p10}–{distribution.p90},
+                range {distribution.min}–{distribution.max}
+              </span>
+              <div className="editor-histogram">
+                {distribution.histogram.map((bucket) => (
+                  <div
+                    key={bucket.from}
+                    className="editor-histogram-bar"
+                    style={{ height: `${(bucket.count / distribution.runs) * 100}%` }}
+                    title={`${bucket.from}–${bucket.to - 1}: ${bucket.count} runs`}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </fieldset>
+
+        {issues.length > 0 && (
+          <ul className="format-message error">
+            {issues.map((issue) => (
+              <li key={`${issue.path}:${issue.message}`}>{issue.path}: {issue.message}</li>
+            ))}
+          </ul>
+        )}
+
+        <fieldset>
+          <legend>Level JSON</legend>
+          <textarea readOnly rows={8} value={editorDocument.toJSON()} />
+          <textarea rows={4} placeholder="Paste level JSON to import" value={importText} onChange={(e) => setImportText(e.target.value)} />
+          <button disabled={!importText} onClick={onImport}>Import</button>
+          {importIssues.map((issue) => (
+            <p key={issue} className="format-message error">{issue}</p>
+          ))}
+        </fieldset>
+      </div>
+    </div>
+  );
+};
@@ -39,6 +39,7 @@ export const SignedInPage = () => {
         </div>
         <div className="flex-vertical gap-4px">
           <strong>Actions:</strong>
+          <Link to="/editor">Level editor</Link>
           <Link to="/change-password">Change password</Link>
           <a onClick={signOut}>
             Sign Out